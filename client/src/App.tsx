@@ -1,6 +1,10 @@
 import { Routes, Route } from "react-router-dom";
 import Home from './pages/Home'
 import Room from './pages/Room'
+import Replay from './pages/Replay'
+import Leaderboard from './pages/Leaderboard'
+import NewTournament from './pages/NewTournament'
+import Tournament from './pages/Tournament'
 import './App.css'
 
 function App() {
@@ -8,6 +12,10 @@ function App() {
     <Routes>
       <Route path="/" element={<Home />} />
       <Route path="/room/:roomId" element={<Room />} />
+      <Route path="/replay/:gameId" element={<Replay />} />
+      <Route path="/leaderboard" element={<Leaderboard />} />
+      <Route path="/tournaments/new" element={<NewTournament />} />
+      <Route path="/tournament/:tournamentId" element={<Tournament />} />
     </Routes>
   )
 }
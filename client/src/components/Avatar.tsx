@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface AvatarProps {
+  name: string;
+  // 未选择颜色时显示灰色
+  color: string | null;
+  size?: 'sm' | 'md';
+}
+
+const SIZE_CLASSES = {
+  sm: 'w-5 h-5 text-xs',
+  md: 'w-7 h-7 text-sm'
+};
+
+// 圆形头像：昵称首字母 + 自选颜色
+const Avatar: React.FC<AvatarProps> = ({ name, color, size = 'sm' }) => (
+  <div
+    className={`${SIZE_CLASSES[size]} shrink-0 rounded-full flex items-center justify-center text-white font-bold`}
+    style={{ backgroundColor: color || '#9ca3af' }}
+  >
+    {(name.trim() || '?').charAt(0).toUpperCase()}
+  </div>
+);
+
+export default Avatar;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { BLACK, EMPTY, GREEN, WHITE, type Board as BoardCells, type Point } from '../rules';
+
+interface BoardProps {
+  // board[y][x]：0 空、1 黑、2 白、3 绿
+  board: BoardCells;
+  lastMove: Point | null;
+  onCellClick?: (row: number, col: number) => void;
+  // 未提供时棋盘只读
+  isCellDisabled?: (row: number, col: number) => boolean;
+  getCellTitle?: (row: number, col: number) => string;
+  // 棋子上显示的手数（复盘用），null 表示不显示
+  moveNumbers?: (number | null)[][];
+  // 连珠规则下黑棋的禁手点
+  forbiddenPoints?: Point[];
+  // 已发出、等待服务器确认的落子，半透明显示
+  pendingMove?: Point | null;
+}
+
+const Board: React.FC<BoardProps> = ({
+  board,
+  lastMove,
+  onCellClick,
+  isCellDisabled = () => true,
+  getCellTitle,
+  moveNumbers,
+  forbiddenPoints = [],
+  pendingMove = null
+}) => {
+  const [viewportSize, setViewportSize] = useState(() => ({
+    width: typeof window !== 'undefined' ? window.innerWidth : 1280,
+    height: typeof window !== 'undefined' ? window.innerHeight : 720
+  }));
+
+  useEffect(() => {
+    const handleResize = () => {
+      setViewportSize({
+        width: window.innerWidth,
+        height: window.innerHeight
+      });
+    };
+
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const isMobileLayout = viewportSize.width < 1024;
+  const boardSize = board.length;
+  const desktopCellSize = 32;
+  const mobileMaxBoardWidth = Math.max(220, viewportSize.width - 24);
+  const mobileMaxBoardHeight = Math.max(220, viewportSize.height - 260);
+  const mobileCellSize = Math.max(14, Math.floor(Math.min(mobileMaxBoardWidth, mobileMaxBoardHeight) / boardSize));
+  const cellSize = isMobileLayout ? mobileCellSize : desktopCellSize;
+  const pieceSize = Math.max(10, Math.floor(cellSize * 0.75));
+  const boardPixelSize = boardSize * cellSize;
+  const forbiddenKeys = new Set(forbiddenPoints.map(point => `${point.x},${point.y}`));
+
+  return (
+    <div className="bg-amber-200 rounded-lg shadow-lg p-2 sm:p-6 border-2 border-amber-300">
+      {/* Traditional Gomoku Board with Lines */}
+      <div className="relative bg-amber-100 p-2 sm:p-4 rounded border border-amber-500 gomoku-board">
+        {/* Grid Lines */}
+        <div 
+          className="relative"
+          style={{
+            width: `${boardPixelSize}px`,
+            height: `${boardPixelSize}px`,
+            ['--cell-size' as string]: `${pieceSize}px`
+          }}
+        >
+          {/* Horizontal Lines */}
+          {Array.from({ length: boardSize }, (_, i) => (
+            <div
+              key={`h-${i}`}
+              className="absolute w-full h-px board-line"
+              style={{ top: `${i * cellSize}px` }}
+            />
+          ))}
+          
+          {/* Vertical Lines */}
+          {Array.from({ length: boardSize }, (_, i) => (
+            <div
+              key={`v-${i}`}
+              className="absolute h-full w-px board-line"
+              style={{ left: `${i * cellSize}px` }}
+            />
+          ))}
+          
+          {/* Intersection Points for Pieces */}
+          {board.map((row, rowIndex) =>
+            row.map((cell, colIndex) => {
+              const disabled = isCellDisabled(rowIndex, colIndex);
+              const moveNumber = moveNumbers?.[rowIndex]?.[colIndex];
+              const isForbidden = cell === EMPTY && forbiddenKeys.has(`${colIndex},${rowIndex}`);
+              return (
+                <button
+                  key={`${rowIndex}-${colIndex}`}
+                  onClick={() => onCellClick?.(rowIndex, colIndex)}
+                  disabled={disabled}
+                  className={`
+                    absolute rounded-full flex items-center justify-center
+                    transform -translate-x-1/2 -translate-y-1/2
+                    ${cell === BLACK ? 'piece-black' : ''}
+                    ${cell === WHITE ? 'piece-white' : ''}
+                    ${cell === GREEN ? 'piece-third' : ''}
+                    ${cell === EMPTY ? 'intersection-point' : ''}
+                    ${isForbidden ? 'intersection-forbidden' : ''}
+                    ${pendingMove?.x === colIndex && pendingMove?.y === rowIndex ? 'opacity-60' : ''}
+                    ${lastMove?.x === colIndex && lastMove?.y === rowIndex ? 'piece-last-move' : ''}
+                    ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}
+                    transition-all duration-200
+                  `}
+                  style={{
+                    left: `${colIndex * cellSize}px`,
+                    top: `${rowIndex * cellSize}px`,
+                    width: `${pieceSize}px`,
+                    height: `${pieceSize}px`,
+                    minWidth: `${pieceSize}px`,
+                    minHeight: `${pieceSize}px`
+                  }}
+                  title={isForbidden ? 'Forbidden for black' : getCellTitle?.(rowIndex, colIndex)}
+                >
+                  {cell !== EMPTY && moveNumber != null && (
+                    <span className="piece-number">{moveNumber}</span>
+                  )}
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Board;
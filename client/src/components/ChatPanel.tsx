@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ChatMessage } from '../types';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => void;
+  // 房间设置了对棋手隐藏观战聊天
+  hideSpectatorChat: boolean;
+  isSpectator: boolean;
+}
+
+// 快捷表情/短语，一键发送
+const QUICK_REACTIONS = ['👍', 'Good move!', 'Hmm…', 'Good game!', 'Rematch?'];
+
+const SIDE_COLORS: Record<ChatMessage['side'], string> = {
+  black: 'text-gray-900',
+  white: 'text-gray-500',
+  green: 'text-green-700',
+  spectator: 'text-blue-700'
+};
+
+const MAX_MESSAGE_LENGTH = 200;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSend, hideSpectatorChat, isSpectator }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 新消息到达时滚动到底部
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages]);
+
+  const send = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSend(trimmed);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(draft);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <div ref={listRef} className="h-40 overflow-y-auto space-y-1 mb-2 text-sm">
+        {messages.length === 0 ? (
+          <p className="text-amber-600">No messages yet</p>
+        ) : (
+          messages.map(message => (
+            <p key={message.id} className="break-words">
+              <span className="text-xs text-amber-500 mr-1">{formatTime(message.timestamp)}</span>
+              <span className={`font-semibold ${SIDE_COLORS[message.side]}`}>{message.nickname}</span>
+              {message.channel === 'spectators' && <span className="text-xs text-blue-500"> (spectator)</span>}
+              <span className="text-amber-900">: {message.text}</span>
+            </p>
+          ))
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {QUICK_REACTIONS.map(reaction => (
+          <button
+            key={reaction}
+            type="button"
+            onClick={() => send(reaction)}
+            className="px-2 py-0.5 bg-amber-50 text-amber-800 text-xs rounded border border-amber-300 hover:bg-amber-200 transition-colors"
+          >
+            {reaction}
+          </button>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Say something…"
+          className="flex-1 min-w-0 px-2 py-1 text-sm border border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+      {isSpectator && hideSpectatorChat && (
+        <p className="text-xs text-amber-600 mt-1">Spectator messages are hidden from the players.</p>
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
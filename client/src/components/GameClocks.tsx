@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import type { ClockState, SeatKey } from '../types';
+
+interface GameClocksProps {
+  clock: ClockState;
+  // 服务器时间减本地时间的估计值（毫秒），由校时往返得出
+  clockOffset: number;
+  // 对局结束后停表
+  stopped: boolean;
+  mySeat: SeatKey | null;
+}
+
+const SEAT_LABELS: Record<SeatKey, string> = {
+  black: 'Black',
+  white: 'White',
+  third: 'Green'
+};
+
+const SEAT_DOTS: Record<SeatKey, string> = {
+  black: 'bg-gray-800',
+  white: 'bg-white border border-gray-300',
+  third: 'bg-green-500'
+};
+
+// 剩余时间显示为 m:ss，不足十秒时带一位小数
+const formatClock = (ms: number) => {
+  if (ms < 10000) return `0:0${(ms / 1000).toFixed(1)}`;
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const GameClocks: React.FC<GameClocksProps> = ({ clock, clockOffset, stopped, mySeat }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const ticking = !!clock.running && !stopped;
+
+  useEffect(() => {
+    if (!ticking) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [ticking]);
+
+  // 正在走的一方：从服务器快照时刻起扣除已过去的时间（换算到服务器时钟）
+  const getTimeLeft = (seatKey: SeatKey) => {
+    const stored = clock.remaining[seatKey] ?? 0;
+    if (!ticking || clock.running !== seatKey) return stored;
+    return Math.max(0, stored - Math.max(0, now + clockOffset - clock.serverTime));
+  };
+
+  const seats = (Object.keys(SEAT_LABELS) as SeatKey[]).filter(seatKey => clock.remaining[seatKey] !== undefined);
+
+  return (
+    <div className="space-y-1">
+      {seats.map(seatKey => {
+        const timeLeft = getTimeLeft(seatKey);
+        const isRunning = ticking && clock.running === seatKey;
+        return (
+          <div
+            key={seatKey}
+            className={`flex items-center justify-between px-2 py-1 rounded ${
+              isRunning ? 'bg-amber-300' : 'bg-amber-50'
+            }`}
+          >
+            <div className="flex items-center space-x-2">
+              <div className={`w-3 h-3 rounded-full ${SEAT_DOTS[seatKey]}`}></div>
+              <span className="text-sm text-amber-800">
+                {SEAT_LABELS[seatKey]}{seatKey === mySeat ? ' (You)' : ''}
+              </span>
+            </div>
+            <span className={`font-mono text-lg ${timeLeft < 10000 ? 'text-red-700' : 'text-amber-900'}`}>
+              {formatClock(timeLeft)}
+            </span>
+          </div>
+        );
+      })}
+      <p className="text-xs text-amber-600">
+        {clock.timeControl.type === 'move'
+          ? `${clock.timeControl.moveSeconds}s per move`
+          : clock.timeControl.type === 'total'
+            ? `${Math.round(clock.timeControl.baseSeconds / 60)} min + ${clock.timeControl.incrementSeconds}s per move`
+            : ''}
+      </p>
+    </div>
+  );
+};
+
+export default GameClocks;
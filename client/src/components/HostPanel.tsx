@@ -0,0 +1,411 @@
+import React, { useState } from 'react';
+import { TIME_CONTROLS } from '../timeControls';
+import { VARIANTS } from '../variants';
+import type { RoomSettings, SeatKey, Variant } from '../types';
+
+// 房主面板中的一个座位
+export interface HostSeat {
+  seatKey: SeatKey;
+  name: string;
+  occupied: boolean;
+  bot: boolean;
+  isMe: boolean;
+  // 空座位有未使用的邀请；inviteCode 为本页签发、仍可分享的邀请码
+  reserved: boolean;
+  inviteCode?: string;
+}
+
+export type KickTarget = { seatKey: SeatKey } | { socketId: string };
+
+interface HostPanelProps {
+  settings: RoomSettings;
+  locked: boolean;
+  hasPassword: boolean;
+  // 邀请链接前缀，后接 ?invite=邀请码
+  inviteBaseUrl: string;
+  // 对局进行中不能改设置、换座位
+  gameInProgress: boolean;
+  seats: HostSeat[];
+  spectators: { id: string; name: string }[];
+  error: string;
+  onKick: (target: KickTarget, ban: boolean) => void;
+  onLock: (locked: boolean) => void;
+  onSwap: (a: SeatKey, b: SeatKey) => void;
+  onPromote: (socketId: string, seatKey: SeatKey) => void;
+  onUpdateSettings: (changes: Partial<RoomSettings>) => void;
+  onRestart: () => void;
+  onCreateInvite: (seatKey: SeatKey) => void;
+  onRevokeInvite: (seatKey: SeatKey) => void;
+  // null 表示取消密码
+  onSetPassword: (password: string | null) => void;
+}
+
+const SEAT_LABELS: Record<SeatKey, string> = {
+  black: 'Black',
+  white: 'White',
+  third: 'Green'
+};
+
+const RULE_SETS = [
+  { value: 'freestyle', label: 'Freestyle' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'renju', label: 'Renju' }
+] as const;
+
+const OPENING_RULES = [
+  { value: 'none', label: 'None' },
+  { value: 'swap', label: 'Swap' },
+  { value: 'swap2', label: 'Swap2' }
+] as const;
+
+const SERIES_LENGTHS = [1, 3, 5, 7];
+
+const selectClass = 'w-full px-1 py-0.5 text-xs border border-amber-300 rounded bg-amber-50 text-amber-900 disabled:opacity-50';
+const smallButtonClass = 'px-2 py-0.5 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const HostPanel: React.FC<HostPanelProps> = ({
+  settings,
+  locked,
+  hasPassword,
+  inviteBaseUrl,
+  gameInProgress,
+  seats,
+  spectators,
+  error,
+  onKick,
+  onLock,
+  onSwap,
+  onPromote,
+  onUpdateSettings,
+  onRestart,
+  onCreateInvite,
+  onRevokeInvite,
+  onSetPassword
+}) => {
+  const [password, setPassword] = useState('');
+  const freeSeats = seats.filter(seat => !seat.occupied);
+  const seatPairs = seats.flatMap((a, i) => seats.slice(i + 1).map(b => [a.seatKey, b.seatKey] as const));
+  // 切换到六子棋或 Pente 时一并调整为其要求的人数、胜利条件，并去掉不适用的开局与连珠规则
+  const changeVariant = (variant: Variant) => {
+    const winCondition = VARIANTS.find(option => option.value === variant)?.winCondition;
+    onUpdateSettings(winCondition
+      ? {
+          variant,
+          playerCount: 2,
+          winCondition,
+          opening: 'none',
+          ruleSet: settings.ruleSet === 'renju' ? 'standard' : settings.ruleSet
+        }
+      : { variant });
+  };
+  const timeControlIndex = TIME_CONTROLS.findIndex(
+    option => JSON.stringify(option.value) === JSON.stringify(settings.timeControl || { type: 'none' })
+  );
+
+  return (
+    <div className="space-y-3 text-xs text-amber-800">
+      {error && <p className="text-red-700">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={locked} onChange={(e) => onLock(e.target.checked)} />
+          <span>Lock room to new joiners</span>
+        </label>
+        <button
+          onClick={onRestart}
+          className={`${smallButtonClass} bg-amber-500 text-white hover:bg-amber-600`}
+        >
+          Restart Game
+        </button>
+      </div>
+
+      {/* Password */}
+      <div>
+        <p className="font-medium text-amber-700 mb-1">
+          Password <span className="font-normal text-amber-600">({hasPassword ? 'set' : 'none'})</span>
+        </p>
+        <form
+          className="flex space-x-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSetPassword(password);
+            setPassword('');
+          }}
+        >
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={hasPassword ? 'New password' : 'Set a password'}
+            className="flex-1 min-w-0 px-1 py-0.5 text-xs border border-amber-300 rounded bg-amber-50 text-amber-900"
+          />
+          <button
+            type="submit"
+            disabled={!password}
+            className={`${smallButtonClass} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            Set
+          </button>
+          {hasPassword && (
+            <button
+              type="button"
+              onClick={() => onSetPassword(null)}
+              className={`${smallButtonClass} bg-gray-500 text-white hover:bg-gray-600`}
+            >
+              Remove
+            </button>
+          )}
+        </form>
+      </div>
+
+      {/* Seats */}
+      <div>
+        <p className="font-medium text-amber-700 mb-1">Seats</p>
+        <div className="space-y-1">
+          {seats.map(seat => (
+            <div key={seat.seatKey} className="flex items-center justify-between">
+              <span>
+                {SEAT_LABELS[seat.seatKey]}: {seat.occupied ? seat.name : seat.reserved ? 'Invited' : 'Empty'}
+              </span>
+              {!seat.occupied && (
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => onCreateInvite(seat.seatKey)}
+                    className={`${smallButtonClass} bg-green-600 text-white hover:bg-green-700`}
+                  >
+                    {seat.reserved ? 'New Invite' : 'Invite'}
+                  </button>
+                  {seat.reserved && (
+                    <button
+                      onClick={() => onRevokeInvite(seat.seatKey)}
+                      className={`${smallButtonClass} bg-gray-500 text-white hover:bg-gray-600`}
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              )}
+              {seat.occupied && !seat.bot && !seat.isMe && (
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => onKick({ seatKey: seat.seatKey }, false)}
+                    className={`${smallButtonClass} bg-gray-500 text-white hover:bg-gray-600`}
+                  >
+                    Kick
+                  </button>
+                  <button
+                    onClick={() => onKick({ seatKey: seat.seatKey }, true)}
+                    className={`${smallButtonClass} bg-red-600 text-white hover:bg-red-700`}
+                  >
+                    Ban
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        {/* 本页签发的邀请链接，每个只能用一次 */}
+        {seats.filter(seat => seat.inviteCode && !seat.occupied).map(seat => {
+          const link = `${inviteBaseUrl}?invite=${seat.inviteCode}`;
+          return (
+            <div key={seat.seatKey} className="flex items-center space-x-1 mt-1">
+              <span className="shrink-0">{SEAT_LABELS[seat.seatKey]} invite:</span>
+              <input
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-1 py-0.5 text-xs border border-amber-300 rounded bg-amber-50 text-amber-900"
+              />
+              <button
+                onClick={() => navigator.clipboard.writeText(link)}
+                className={`${smallButtonClass} bg-blue-600 text-white hover:bg-blue-700`}
+              >
+                Copy
+              </button>
+            </div>
+          );
+        })}
+        <div className="flex flex-wrap gap-1 mt-1">
+          {seatPairs.map(([a, b]) => (
+            <button
+              key={`${a}-${b}`}
+              disabled={gameInProgress}
+              onClick={() => onSwap(a, b)}
+              className={`${smallButtonClass} bg-blue-600 text-white hover:bg-blue-700`}
+            >
+              Swap {SEAT_LABELS[a]} ↔ {SEAT_LABELS[b]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Spectators */}
+      {spectators.length > 0 && (
+        <div>
+          <p className="font-medium text-amber-700 mb-1">Spectators</p>
+          <div className="space-y-1">
+            {spectators.map(spectator => (
+              <div key={spectator.id} className="flex items-center justify-between">
+                <span className="truncate">{spectator.name}</span>
+                <div className="flex space-x-1 shrink-0">
+                  {freeSeats.map(seat => (
+                    <button
+                      key={seat.seatKey}
+                      onClick={() => onPromote(spectator.id, seat.seatKey)}
+                      className={`${smallButtonClass} bg-green-600 text-white hover:bg-green-700`}
+                    >
+                      Seat as {SEAT_LABELS[seat.seatKey]}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => onKick({ socketId: spectator.id }, false)}
+                    className={`${smallButtonClass} bg-gray-500 text-white hover:bg-gray-600`}
+                  >
+                    Kick
+                  </button>
+                  <button
+                    onClick={() => onKick({ socketId: spectator.id }, true)}
+                    className={`${smallButtonClass} bg-red-600 text-white hover:bg-red-700`}
+                  >
+                    Ban
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Settings */}
+      <div>
+        <p className="font-medium text-amber-700 mb-1">
+          Settings{gameInProgress && <span className="font-normal text-amber-600"> (between games only)</span>}
+        </p>
+        <div className="grid grid-cols-2 gap-1">
+          <label>
+            Variant
+            <select
+              value={settings.variant || 'gomoku'}
+              disabled={gameInProgress || !!settings.computer?.engine}
+              onChange={(e) => changeVariant(e.target.value as Variant)}
+              className={selectClass}
+            >
+              {VARIANTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <label>
+            Players
+            <select
+              value={settings.playerCount}
+              disabled={gameInProgress || !!settings.computer}
+              onChange={(e) => onUpdateSettings({ playerCount: Number(e.target.value) as 2 | 3 })}
+              className={selectClass}
+            >
+              <option value={2}>2 players</option>
+              <option value={3}>3 players</option>
+            </select>
+          </label>
+          <label>
+            Win condition
+            <select
+              value={settings.winCondition}
+              disabled={gameInProgress || !!settings.computer?.engine}
+              onChange={(e) => onUpdateSettings({ winCondition: Number(e.target.value) as 4 | 5 | 6 })}
+              className={selectClass}
+            >
+              {[4, 5, 6].map(n => <option key={n} value={n}>{n} in a row</option>)}
+            </select>
+          </label>
+          <label>
+            Board
+            <select
+              value={settings.boardSize}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ boardSize: Number(e.target.value) as 15 | 19 })}
+              className={selectClass}
+            >
+              <option value={15}>15×15</option>
+              <option value={19}>19×19</option>
+            </select>
+          </label>
+          <label>
+            Rules
+            <select
+              value={settings.ruleSet || 'freestyle'}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ ruleSet: e.target.value as RoomSettings['ruleSet'] })}
+              className={selectClass}
+            >
+              {RULE_SETS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <label>
+            Opening
+            <select
+              value={settings.opening || 'none'}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ opening: e.target.value as RoomSettings['opening'] })}
+              className={selectClass}
+            >
+              {OPENING_RULES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <label>
+            Match
+            <select
+              value={settings.bestOf || 1}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ bestOf: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {SERIES_LENGTHS.map(n => <option key={n} value={n}>{n === 1 ? 'Single game' : `Best of ${n}`}</option>)}
+            </select>
+          </label>
+          <label>
+            Time control
+            <select
+              value={timeControlIndex}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ timeControl: TIME_CONTROLS[Number(e.target.value)].value })}
+              className={selectClass}
+            >
+              {timeControlIndex === -1 && <option value={-1}>Custom</option>}
+              {TIME_CONTROLS.map((option, index) => <option key={option.label} value={index}>{option.label}</option>)}
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-x-3 mt-1">
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={!!settings.rated}
+              disabled={gameInProgress || !!settings.computer}
+              onChange={(e) => onUpdateSettings({ rated: e.target.checked })}
+            />
+            <span>Rated</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={!!settings.isPublic}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ isPublic: e.target.checked })}
+            />
+            <span>Public</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={!!settings.hideSpectatorChat}
+              disabled={gameInProgress}
+              onChange={(e) => onUpdateSettings({ hideSpectatorChat: e.target.checked })}
+            />
+            <span>Hide spectator chat</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HostPanel;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { io } from 'socket.io-client';
+import { SERVER_URL, CONFIG } from '../config';
+import { getVariantLabel } from '../variants';
+import type { LobbyRoom, SeatKey, TimeControl } from '../types';
+
+interface LobbyListProps {
+  onOpenRoom: (roomId: string) => void;
+}
+
+interface LobbyRooms {
+  waiting: LobbyRoom[];
+  live: LobbyRoom[];
+}
+
+const SEAT_LABELS: Record<SeatKey, string> = {
+  black: 'Black',
+  white: 'White',
+  third: 'Green'
+};
+
+const formatTimeControl = (timeControl: TimeControl) => {
+  if (timeControl.type === 'move') return `${timeControl.moveSeconds}s/move`;
+  if (timeControl.type === 'total') return `${Math.round(timeControl.baseSeconds / 60)}+${timeControl.incrementSeconds}`;
+  return 'Untimed';
+};
+
+const describeSettings = (room: LobbyRoom) => {
+  const { playerCount, winCondition, boardSize, ruleSet, timeControl, rated, variant } = room.settings;
+  return [
+    ...(variant && variant !== 'gomoku' ? [getVariantLabel(variant)] : []),
+    `${playerCount}P`,
+    `${winCondition} in a row`,
+    `${boardSize}×${boardSize}`,
+    ruleSet,
+    formatTimeControl(timeControl),
+    rated ? 'Rated' : 'Casual'
+  ].join(' · ');
+};
+
+const getPlayerNames = (room: LobbyRoom) =>
+  (Object.keys(SEAT_LABELS) as SeatKey[])
+    .filter(seatKey => room.players[seatKey] !== undefined)
+    .map(seatKey => room.players[seatKey]?.nickname || (room.players[seatKey] ? SEAT_LABELS[seatKey] : 'Open'))
+    .join(' vs ');
+
+// 大厅：先拉取一次列表，之后通过 Socket 订阅实时更新
+const LobbyList: React.FC<LobbyListProps> = ({ onOpenRoom }) => {
+  const [lobby, setLobby] = useState<LobbyRooms | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${SERVER_URL}/api/rooms`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: LobbyRooms | null) => {
+        if (data && !cancelled) setLobby(data);
+      })
+      .catch(err => console.error('Error loading lobby:', err));
+
+    const lobbySocket = io(SERVER_URL, CONFIG.SOCKET_OPTIONS);
+    lobbySocket.on('connect', () => lobbySocket.emit('lobby_subscribe'));
+    lobbySocket.on('lobby_rooms', (data: LobbyRooms) => setLobby(data));
+
+    return () => {
+      cancelled = true;
+      lobbySocket.disconnect();
+    };
+  }, []);
+
+  if (!lobby) {
+    return <p className="text-xs text-gray-500">Loading rooms...</p>;
+  }
+
+  const renderRoom = (room: LobbyRoom, live: boolean) => (
+    <button
+      key={room.roomId}
+      type="button"
+      onClick={() => onOpenRoom(room.roomId)}
+      className="w-full text-left px-2 py-1 rounded border border-gray-300 bg-gray-50 hover:bg-gray-100 transition-colors"
+    >
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-800 truncate">
+          {room.hasPassword && <span title="Password required">🔒 </span>}
+          {getPlayerNames(room)}
+        </span>
+        <span className="text-gray-500 shrink-0 ml-2">
+          {live
+            ? `Move ${room.moveCount}${room.spectators > 0 ? ` · ${room.spectators} watching` : ''}`
+            : `${room.freeSeats} seat${room.freeSeats > 1 ? 's' : ''} free`}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500">{describeSettings(room)}</div>
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h3 className="text-xs font-medium text-gray-500 mb-1">Open Rooms</h3>
+        {lobby.waiting.length === 0 ? (
+          <p className="text-xs text-gray-400">No public rooms waiting for players.</p>
+        ) : (
+          <div className="space-y-1">{lobby.waiting.map(room => renderRoom(room, false))}</div>
+        )}
+      </div>
+      <div>
+        <h3 className="text-xs font-medium text-gray-500 mb-1">Live Games</h3>
+        {lobby.live.length === 0 ? (
+          <p className="text-xs text-gray-400">No games in progress.</p>
+        ) : (
+          <div className="space-y-1">{lobby.live.map(room => renderRoom(room, true))}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LobbyList;
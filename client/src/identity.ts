@@ -0,0 +1,66 @@
+// 玩家令牌：由服务器在首次加入房间时签发，保存在浏览器中，
+// 刷新页面或断线重连时带上它即可找回原来的座位
+const PLAYER_TOKEN_KEY = 'gomoku_player_token';
+
+export function getPlayerToken(): string | null {
+  try {
+    return localStorage.getItem(PLAYER_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePlayerToken(token: string) {
+  try {
+    localStorage.setItem(PLAYER_TOKEN_KEY, token);
+  } catch {
+    // 存储不可用（如隐私模式）时只在本次会话内有效
+  }
+}
+
+// 公开的玩家 id（由令牌派生），用于在排行榜上标出自己
+const PLAYER_ID_KEY = 'gomoku_player_id';
+
+export function getPlayerId(): string | null {
+  try {
+    return localStorage.getItem(PLAYER_ID_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePlayerId(playerId: string) {
+  try {
+    localStorage.setItem(PLAYER_ID_KEY, playerId);
+  } catch {
+    // 存储不可用（如隐私模式）时只在本次会话内有效
+  }
+}
+
+// 昵称与头像颜色：在首页设置，加入房间时发给服务器
+const PROFILE_KEY = 'gomoku_profile';
+
+export interface Profile {
+  nickname: string;
+  color: string;
+}
+
+export const AVATAR_COLORS = ['#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0891b2', '#2563eb', '#7c3aed', '#db2777'];
+
+export function getProfile(): Profile {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+    if (stored && typeof stored.nickname === 'string' && typeof stored.color === 'string') return stored;
+  } catch {
+    // 存储不可用或内容损坏时使用默认值
+  }
+  return { nickname: '', color: AVATAR_COLORS[0] };
+}
+
+export function saveProfile(profile: Profile) {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch {
+    // 存储不可用（如隐私模式）时只在本次会话内有效
+  }
+}
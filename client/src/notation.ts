@@ -0,0 +1,4 @@
+// 棋盘坐标记法：列用字母 a 起，行号自下而上从 1 起，如 15 路棋盘中心为 h8
+export function formatCoordinate(x: number, y: number, boardSize: number): string {
+  return `${String.fromCharCode(97 + x)}${boardSize - y}`;
+}
@@ -1,25 +1,159 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { SERVER_URL } from '../config';
+import { io, Socket } from 'socket.io-client';
+import { SERVER_URL, CONFIG } from '../config';
+import { AVATAR_COLORS, getPlayerToken, savePlayerToken, getProfile, saveProfile, type Profile } from '../identity';
+import Avatar from '../components/Avatar';
+import LobbyList from '../components/LobbyList';
+import { TIME_CONTROLS } from '../timeControls';
+import { VARIANTS } from '../variants';
+import type { EngineInfo, TimeControl, Variant } from '../types';
+
+type BotLevel = 'easy' | 'medium' | 'hard';
+type RuleSet = 'freestyle' | 'standard' | 'renju';
+type OpeningRule = 'none' | 'swap' | 'swap2';
 
 interface GameSettings {
   playerCount: 2 | 3;
   winCondition: 4 | 5 | 6;
   boardSize: 15 | 19;
+  ruleSet: RuleSet;
+  opening: OpeningRule;
+  timeControl: TimeControl;
+  // 观战者的聊天不让棋手看到
+  hideSpectatorChat: boolean;
+  // 计分对局只在真人之间进行
+  rated: boolean;
+  // 电脑对手：null 表示全部为真人；engine 为所选外部引擎的 id，此时不用内置电脑
+  computer: { level: BotLevel; count: 1 | 2; engine?: string } | null;
+  // 公开房间显示在大厅中；私人房间只能凭房间号加入
+  isPublic: boolean;
+  // 系列赛局数，1 为单局，每局后轮换座位
+  bestOf: 1 | 3 | 5 | 7;
+  variant: Variant;
+}
+
+const RULE_SETS: { value: RuleSet; label: string }[] = [
+  { value: 'freestyle', label: 'Freestyle' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'renju', label: 'Renju' }
+];
+
+// 连珠规则只适用于两人五子棋
+const supportsRenju = (settings: GameSettings) =>
+  settings.variant === 'gomoku' && settings.playerCount === 2 && settings.winCondition === 5;
+
+const OPENING_RULES: { value: OpeningRule; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'swap', label: 'Swap' },
+  { value: 'swap2', label: 'Swap2' }
+];
+
+// 开局规则只用于两名真人对弈的五子棋
+const supportsOpening = (settings: GameSettings) =>
+  settings.variant === 'gomoku' && settings.playerCount === 2 && !settings.computer;
+
+// 外部引擎只下两人标准五子棋
+const supportsEngine = (settings: GameSettings) =>
+  settings.variant === 'gomoku' && settings.playerCount === 2 && settings.winCondition === 5;
+
+const BOT_LEVELS: { value: BotLevel; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' }
+];
+
+// 房间号输入框也接受完整的房间链接或邀请链接（/room/房间号?invite=邀请码）
+const parseRoomInput = (input: string) => {
+  const trimmed = input.trim();
+  const link = /\/room\/([^/?#]+)(?:\?([^#]*))?/.exec(trimmed);
+  if (!link) return { roomId: trimmed.toUpperCase(), invite: null };
+  return { roomId: link[1], invite: new URLSearchParams(link[2] || '').get('invite') };
+};
+
+// 设置页的用途：创建房间，或按所选设置快速匹配
+type FormMode = 'create' | 'quick';
+
+interface QueueStatus {
+  waiting: number;
+  position: number;
 }
 
 const Home: React.FC = () => {
   const [roomCode, setRoomCode] = useState('');
+  // 加入有密码的房间时可先填好密码；创建房间时可设置密码
+  const [joinPassword, setJoinPassword] = useState('');
+  const [roomPassword, setRoomPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formMode, setFormMode] = useState<FormMode>('create');
+  // 排队中时为服务器推送的排队状态，未排队时为 null
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const queueSocketRef = useRef<Socket | null>(null);
+  const [profile, setProfile] = useState<Profile>(getProfile);
+  // 服务器上配置的外部引擎，没有配置时为空
+  const [engines, setEngines] = useState<EngineInfo[]>([]);
   const [gameSettings, setGameSettings] = useState<GameSettings>({
     playerCount: 2,
     winCondition: 5,
-    boardSize: 15
+    boardSize: 15,
+    ruleSet: 'freestyle',
+    opening: 'none',
+    timeControl: { type: 'none' },
+    hideSpectatorChat: false,
+    rated: false,
+    computer: null,
+    isPublic: true,
+    bestOf: 1,
+    variant: 'gomoku'
   });
   const navigate = useNavigate();
 
+  // 人数或胜利条件改变后不再适用连珠时，按"恰好五连"处理
+  const ruleSet = gameSettings.ruleSet === 'renju' && !supportsRenju(gameSettings) ? 'standard' : gameSettings.ruleSet;
+  const opening = supportsOpening(gameSettings) ? gameSettings.opening : 'none';
+  const isQuickMatch = formMode === 'quick';
+  // 快速匹配只下五子棋；其余变体固定为两人与各自的胜利条件
+  const variant = isQuickMatch ? 'gomoku' : gameSettings.variant;
+  const variantWinCondition = VARIANTS.find(option => option.value === variant)?.winCondition ?? null;
+  // 快速匹配只在真人之间进行，不受电脑对手设置影响
+  const rated = gameSettings.rated && (isQuickMatch || !gameSettings.computer);
+  // 改成引擎不支持的设置后退回内置电脑
+  const engine = gameSettings.computer?.engine && supportsEngine({ ...gameSettings, variant })
+    ? engines.find(option => option.id === gameSettings.computer?.engine) ?? null
+    : null;
+  const computer = gameSettings.computer && { level: gameSettings.computer.level, count: gameSettings.computer.count, engine: engine?.id };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${SERVER_URL}/api/engines`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: { engines: EngineInfo[] } | null) => {
+        if (data && !cancelled) setEngines(data.engines);
+      })
+      .catch(err => console.error('Error loading engines:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 离开页面时退出匹配队列
+  useEffect(() => {
+    return () => {
+      queueSocketRef.current?.disconnect();
+    };
+  }, []);
+
+  // 昵称与头像颜色改动后立即保存，加入房间时带上
+  const updateProfile = (changes: Partial<Profile>) => {
+    setProfile(prev => {
+      const next = { ...prev, ...changes };
+      saveProfile(next);
+      return next;
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!roomCode.trim()) return;
@@ -28,8 +162,11 @@ const Home: React.FC = () => {
     setError('');
     
     try {
-      // 直接导航到房间，后端会自动创建房间如果不存在
-      navigate(`/room/${roomCode.trim()}`);
+      // 房间不存在或密码不对时由房间页提示
+      const { roomId, invite } = parseRoomInput(roomCode);
+      navigate(`/room/${roomId}${invite ? `?invite=${encodeURIComponent(invite)}` : ''}`, {
+        state: joinPassword ? { password: joinPassword } : null
+      });
     } catch (err) {
       setError('Failed to join room. Please try again.');
       console.error('Error joining room:', err);
@@ -48,34 +185,104 @@ const Home: React.FC = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(gameSettings)
+        body: JSON.stringify({
+          ...gameSettings,
+          variant,
+          computer,
+          ruleSet,
+          opening,
+          rated,
+          password: roomPassword || null,
+          playerToken: getPlayerToken()
+        })
       });
 
+      // 设置不合法、请求过于频繁或服务器房间已满时，显示服务器给出的原因
       if (!response.ok) {
-        throw new Error('Failed to create room');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to create room. Please try again.');
       }
 
+      // 建房者成为房主，凭令牌识别
       const data = await response.json();
+      if (data.playerToken) savePlayerToken(data.playerToken);
       navigate(`/room/${data.roomId}`);
     } catch (err) {
-      setError('Failed to create room. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to create room. Please try again.');
       console.error('Error creating room:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // 快速匹配：只用人数、胜利条件、棋盘大小与计分模式排队，凑齐后服务器建房并预留座位
+  const startQuickMatch = () => {
+    setError('');
+    queueSocketRef.current?.disconnect();
+    const queueSocket = io(SERVER_URL, CONFIG.SOCKET_OPTIONS);
+    queueSocketRef.current = queueSocket;
+    setQueueStatus({ waiting: 1, position: 1 });
+
+    queueSocket.on('connect', () => {
+      queueSocket.emit('queue_join', {
+        settings: {
+          playerCount: gameSettings.playerCount,
+          winCondition: gameSettings.winCondition,
+          boardSize: gameSettings.boardSize,
+          rated
+        },
+        playerToken: getPlayerToken(),
+        ...profile
+      });
+    });
+
+    queueSocket.on('queue_status', (data: QueueStatus) => {
+      setQueueStatus({ waiting: data.waiting, position: data.position });
+    });
+
+    queueSocket.on('match_found', (data: { roomId: string; playerToken: string }) => {
+      savePlayerToken(data.playerToken);
+      queueSocket.disconnect();
+      queueSocketRef.current = null;
+      navigate(`/room/${data.roomId}`);
+    });
+
+    const stopWithError = (message: string) => {
+      queueSocket.disconnect();
+      queueSocketRef.current = null;
+      setQueueStatus(null);
+      setError(message);
+    };
+    queueSocket.on('queue_timeout', () => stopWithError('No opponent found. Please try again later.'));
+    queueSocket.on('queue_error', (data: { error: string }) => stopWithError(data.error));
+    queueSocket.on('connect_error', () => stopWithError('Failed to connect to server. Please try again.'));
+  };
+
+  const cancelQuickMatch = () => {
+    queueSocketRef.current?.emit('queue_leave');
+    queueSocketRef.current?.disconnect();
+    queueSocketRef.current = null;
+    setQueueStatus(null);
+  };
+
   const handleCreateClick = () => {
+    setFormMode('create');
+    setShowCreateForm(true);
+  };
+
+  const handleQuickPlayClick = () => {
+    setFormMode('quick');
     setShowCreateForm(true);
   };
 
   const handleBackToHome = () => {
+    cancelQuickMatch();
     setShowCreateForm(false);
     setError('');
   };
 
   return (
-    <div className="h-screen flex flex-col items-center justify-center p-2 overflow-hidden">
+    <div className="h-screen flex flex-col items-center justify-center-safe p-2 overflow-y-auto">
       <h1 className="text-2xl font-bold mb-1">Welcome to Gomoku</h1>
       <p className="text-gray-500 mb-2 text-xs">Start a new game or join an existing room.</p>
       
@@ -87,6 +294,37 @@ const Home: React.FC = () => {
       
       {!showCreateForm ? (
         <div className="w-full max-w-sm">
+          {/* Profile */}
+          <div className="mb-3">
+            <label htmlFor="nickname" className="block text-xs font-medium text-gray-500 mb-1">
+              Your Name:
+            </label>
+            <div className="flex items-center space-x-2">
+              <Avatar name={profile.nickname} color={profile.color} size="md" />
+              <input
+                type="text"
+                id="nickname"
+                value={profile.nickname}
+                onChange={(e) => updateProfile({ nickname: e.target.value })}
+                placeholder="Enter a nickname"
+                maxLength={20}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex space-x-1 mt-2">
+              {AVATAR_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  title={color}
+                  onClick={() => updateProfile({ color })}
+                  className={`w-5 h-5 rounded-full border-2 ${profile.color === color ? 'border-gray-800' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                ></button>
+              ))}
+            </div>
+          </div>
+
           <form onSubmit={handleSubmit} className="mb-2">
             <div className="mb-2">
               <label htmlFor="roomCode" className="block text-xs font-medium text-gray-500 mb-1">
@@ -97,7 +335,21 @@ const Home: React.FC = () => {
                 id="roomCode"
                 value={roomCode}
                 onChange={(e) => setRoomCode(e.target.value)}
-                placeholder="Enter room code"
+                placeholder="Enter room code or invite link"
+                disabled={isLoading}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+              />
+            </div>
+            <div className="mb-2">
+              <label htmlFor="joinPassword" className="block text-xs font-medium text-gray-500 mb-1">
+                Password (if the room has one):
+              </label>
+              <input
+                type="password"
+                id="joinPassword"
+                value={joinPassword}
+                onChange={(e) => setJoinPassword(e.target.value)}
+                placeholder="Optional"
                 disabled={isLoading}
                 className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
               />
@@ -122,11 +374,76 @@ const Home: React.FC = () => {
           >
             Create New Room
           </button>
+
+          <button
+            onClick={handleQuickPlayClick}
+            disabled={isLoading}
+            className="w-full mt-2 bg-blue-600 text-white py-1 px-3 text-sm rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Quick Play
+          </button>
+
+          <button
+            type="button"
+            onClick={() => navigate('/leaderboard')}
+            className="w-full mt-2 text-xs text-blue-700 hover:underline"
+          >
+            View Leaderboard
+          </button>
+
+          <button
+            type="button"
+            onClick={() => navigate('/tournaments/new')}
+            className="w-full mt-1 text-xs text-blue-700 hover:underline"
+          >
+            Organize a Tournament
+          </button>
+
+          {/* Lobby */}
+          <div className="mt-3 pt-3 border-t border-gray-200">
+            <LobbyList onOpenRoom={(id) => navigate(`/room/${id}`)} />
+          </div>
         </div>
       ) : (
         <div className="w-full max-w-sm">
           <div className="mb-4">
-            <h2 className="text-lg font-semibold mb-3 text-white">Game Settings</h2>
+            <h2 className="text-lg font-semibold mb-3 text-white">{isQuickMatch ? 'Quick Play' : 'Game Settings'}</h2>
+
+            {/* Variant */}
+            {!isQuickMatch && (
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-gray-500 mb-1">
+                  Variant:
+                </label>
+                <div className="flex space-x-2">
+                  {VARIANTS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setGameSettings(prev => ({
+                        ...prev,
+                        variant: option.value,
+                        ...(option.winCondition && {
+                          playerCount: 2,
+                          winCondition: option.winCondition,
+                          computer: prev.computer && { ...prev.computer, count: 1 }
+                        })
+                      }))}
+                      className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                        variant === option.value 
+                          ? 'bg-blue-600 text-white border-blue-600' 
+                          : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {VARIANTS.find(option => option.value === variant)?.description}
+                </p>
+              </div>
+            )}
             
             {/* Player Count */}
             <div className="mb-3">
@@ -136,7 +453,11 @@ const Home: React.FC = () => {
               <div className="flex space-x-2">
                 <button
                   type="button"
-                  onClick={() => setGameSettings(prev => ({ ...prev, playerCount: 2 }))}
+                  onClick={() => setGameSettings(prev => ({
+                    ...prev,
+                    playerCount: 2,
+                    computer: prev.computer && { ...prev.computer, count: 1 }
+                  }))}
                   className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
                     gameSettings.playerCount === 2 
                       ? 'bg-blue-600 text-white border-blue-600' 
@@ -147,8 +468,9 @@ const Home: React.FC = () => {
                 </button>
                 <button
                   type="button"
+                  disabled={variant !== 'gomoku'}
                   onClick={() => setGameSettings(prev => ({ ...prev, playerCount: 3 }))}
-                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                     gameSettings.playerCount === 3 
                       ? 'bg-blue-600 text-white border-blue-600' 
                       : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
@@ -167,8 +489,9 @@ const Home: React.FC = () => {
               <div className="flex space-x-2">
                 <button
                   type="button"
+                  disabled={variantWinCondition !== null && variantWinCondition !== 4}
                   onClick={() => setGameSettings(prev => ({ ...prev, winCondition: 4 }))}
-                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                     gameSettings.winCondition === 4 
                       ? 'bg-blue-600 text-white border-blue-600' 
                       : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
@@ -178,8 +501,9 @@ const Home: React.FC = () => {
                 </button>
                 <button
                   type="button"
+                  disabled={variantWinCondition !== null && variantWinCondition !== 5}
                   onClick={() => setGameSettings(prev => ({ ...prev, winCondition: 5 }))}
-                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                     gameSettings.winCondition === 5 
                       ? 'bg-blue-600 text-white border-blue-600' 
                       : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
@@ -189,8 +513,9 @@ const Home: React.FC = () => {
                 </button>
                 <button
                   type="button"
+                  disabled={variantWinCondition !== null && variantWinCondition !== 6}
                   onClick={() => setGameSettings(prev => ({ ...prev, winCondition: 6 }))}
-                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                  className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                     gameSettings.winCondition === 6 
                       ? 'bg-blue-600 text-white border-blue-600' 
                       : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
@@ -232,15 +557,327 @@ const Home: React.FC = () => {
               </div>
             </div>
 
-            {/* Game Summary */}
-            <div className="bg-gray-50 rounded p-2 mb-4">
-              <p className="text-xs text-gray-600">
-                <strong>Game Summary:</strong><br/>
-                • {gameSettings.playerCount} players<br/>
-                • {gameSettings.winCondition} in a row to win<br/>
-                • {gameSettings.boardSize}×{gameSettings.boardSize} board
-              </p>
+            {!isQuickMatch && (
+              <>
+                {/* Rule Set */}
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Rules:
+                  </label>
+                  <div className="flex space-x-2">
+                    {RULE_SETS.map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        disabled={option.value === 'renju' && !supportsRenju(gameSettings)}
+                        onClick={() => setGameSettings(prev => ({ ...prev, ruleSet: option.value }))}
+                        className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          ruleSet === option.value 
+                            ? 'bg-blue-600 text-white border-blue-600' 
+                            : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {ruleSet === 'freestyle' && 'Any line of the winning length or longer wins.'}
+                    {ruleSet === 'standard' && 'Exactly the winning length wins; overlines do not count.'}
+                    {ruleSet === 'renju' && 'Black may not play double-three, double-four or overline.'}
+                  </p>
+                </div>
+
+                {/* Opening Rule */}
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Opening:
+                  </label>
+                  <div className="flex space-x-2">
+                    {OPENING_RULES.map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        disabled={option.value !== 'none' && !supportsOpening(gameSettings)}
+                        onClick={() => setGameSettings(prev => ({ ...prev, opening: option.value }))}
+                        className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          opening === option.value 
+                            ? 'bg-blue-600 text-white border-blue-600' 
+                            : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {opening === 'none' && 'Black moves first.'}
+                    {opening === 'swap' && 'The first player places three stones; the second picks a colour.'}
+                    {opening === 'swap2' && 'Like Swap, but the second player may place two more stones and hand the choice back.'}
+                  </p>
+                </div>
+
+                {/* Time Control */}
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Time Control:
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {TIME_CONTROLS.map(option => (
+                      <button
+                        key={option.label}
+                        type="button"
+                        onClick={() => setGameSettings(prev => ({ ...prev, timeControl: option.value }))}
+                        className={`py-1 px-2 text-xs rounded border transition-colors ${
+                          gameSettings.timeControl === option.value 
+                            ? 'bg-blue-600 text-white border-blue-600' 
+                            : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Rated / Casual */}
+            <div className="mb-4">
+              <label className="block text-xs font-medium text-gray-500 mb-1">
+                Mode:
+              </label>
+              <div className="flex space-x-2">
+                {([false, true] as const).map(value => (
+                  <button
+                    key={String(value)}
+                    type="button"
+                    disabled={value && !isQuickMatch && !!gameSettings.computer}
+                    onClick={() => setGameSettings(prev => ({ ...prev, rated: value }))}
+                    className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      rated === value 
+                        ? 'bg-blue-600 text-white border-blue-600' 
+                        : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                    }`}
+                  >
+                    {value ? 'Rated' : 'Casual'}
+                  </button>
+                ))}
+              </div>
             </div>
+
+            {!isQuickMatch && (
+              <>
+                {/* Match Length */}
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Match:
+                  </label>
+                  <div className="flex space-x-2">
+                    {([1, 3, 5, 7] as const).map(value => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setGameSettings(prev => ({ ...prev, bestOf: value }))}
+                        className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                          gameSettings.bestOf === value 
+                            ? 'bg-blue-600 text-white border-blue-600' 
+                            : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                        }`}
+                      >
+                        {value === 1 ? 'Single' : `Best of ${value}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Visibility */}
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Visibility:
+                  </label>
+                  <div className="flex space-x-2">
+                    {([true, false] as const).map(value => (
+                      <button
+                        key={String(value)}
+                        type="button"
+                        onClick={() => setGameSettings(prev => ({ ...prev, isPublic: value }))}
+                        className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                          gameSettings.isPublic === value 
+                            ? 'bg-blue-600 text-white border-blue-600' 
+                            : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                        }`}
+                      >
+                        {value ? 'Public' : 'Private'}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {gameSettings.isPublic ? 'Listed in the lobby for anyone to join or watch.' : 'Only people with the room code can join.'}
+                  </p>
+                  <input
+                    type="password"
+                    value={roomPassword}
+                    onChange={(e) => setRoomPassword(e.target.value)}
+                    placeholder="Room password (optional)"
+                    maxLength={64}
+                    className="w-full mt-2 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+
+                {/* Chat */}
+                <div className="mb-4">
+                  <label className="flex items-center space-x-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={gameSettings.hideSpectatorChat}
+                      onChange={(e) => setGameSettings(prev => ({ ...prev, hideSpectatorChat: e.target.checked }))}
+                    />
+                    <span>Hide spectator chat from players</span>
+                  </label>
+                </div>
+
+                {/* Opponent */}
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">
+                    Opponent:
+                  </label>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setGameSettings(prev => ({ ...prev, computer: null }))}
+                      className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                        !gameSettings.computer 
+                          ? 'bg-blue-600 text-white border-blue-600' 
+                          : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                      }`}
+                    >
+                      Humans
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setGameSettings(prev => ({ ...prev, computer: prev.computer || { level: 'medium', count: 1 } }))}
+                      className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                        gameSettings.computer 
+                          ? 'bg-blue-600 text-white border-blue-600' 
+                          : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                      }`}
+                    >
+                      vs Computer
+                    </button>
+                  </div>
+                  {gameSettings.computer && (
+                    <>
+                      <div className="flex space-x-2 mt-2">
+                        {BOT_LEVELS.map(level => (
+                          <button
+                            key={level.value}
+                            type="button"
+                            onClick={() => setGameSettings(prev => ({
+                              ...prev,
+                              computer: prev.computer && { level: level.value, count: prev.computer.count }
+                            }))}
+                            className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                              !engine && gameSettings.computer?.level === level.value 
+                                ? 'bg-blue-600 text-white border-blue-600' 
+                                : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                            }`}
+                          >
+                            {level.label}
+                          </button>
+                        ))}
+                      </div>
+                      {engines.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {engines.map(option => (
+                            <button
+                              key={option.id}
+                              type="button"
+                              disabled={!supportsEngine({ ...gameSettings, variant })}
+                              onClick={() => setGameSettings(prev => ({
+                                ...prev,
+                                computer: prev.computer && { ...prev.computer, count: 1, engine: option.id }
+                              }))}
+                              className={`flex-1 py-1 px-2 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                engine?.id === option.id 
+                                  ? 'bg-blue-600 text-white border-blue-600' 
+                                  : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                              }`}
+                            >
+                              Engine: {option.name}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {gameSettings.playerCount === 3 && (
+                        <div className="flex space-x-2 mt-2">
+                          {([1, 2] as const).map(count => (
+                            <button
+                              key={count}
+                              type="button"
+                              onClick={() => setGameSettings(prev => ({
+                                ...prev,
+                                computer: prev.computer && { ...prev.computer, count }
+                              }))}
+                              className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                                gameSettings.computer?.count === count 
+                                  ? 'bg-blue-600 text-white border-blue-600' 
+                                  : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                              }`}
+                            >
+                              {count} Computer{count > 1 ? 's' : ''}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {/* Game Summary */}
+                <div className="bg-gray-50 rounded p-2 mb-4">
+                  <p className="text-xs text-gray-600">
+                    <strong>Game Summary:</strong><br/>
+                    {variant !== 'gomoku' && (
+                      <>
+                        • {VARIANTS.find(option => option.value === variant)?.label}<br/>
+                      </>
+                    )}
+                    • {gameSettings.playerCount} players<br/>
+                    • {gameSettings.winCondition} in a row to win<br/>
+                    • {gameSettings.boardSize}×{gameSettings.boardSize} board<br/>
+                    • {RULE_SETS.find(option => option.value === ruleSet)?.label} rules<br/>
+                    • {rated ? 'Rated' : 'Casual'} {gameSettings.isPublic ? 'public' : 'private'} game
+                    {gameSettings.bestOf > 1 && (
+                      <>
+                        <br/>• Best-of-{gameSettings.bestOf} match, colours rotate each game
+                      </>
+                    )}
+                    {gameSettings.timeControl.type !== 'none' && (
+                      <>
+                        <br/>• {TIME_CONTROLS.find(option => option.value === gameSettings.timeControl)?.label} time control
+                      </>
+                    )}
+                    {opening !== 'none' && (
+                      <>
+                        <br/>• {OPENING_RULES.find(option => option.value === opening)?.label} opening
+                      </>
+                    )}
+                    {gameSettings.computer && (
+                      engine ? (
+                        <>
+                          <br/>• Engine opponent: {engine.name}
+                        </>
+                      ) : (
+                        <>
+                          <br/>• {gameSettings.computer.count} computer opponent{gameSettings.computer.count > 1 ? 's' : ''} ({gameSettings.computer.level})
+                        </>
+                      )
+                    )}
+                  </p>
+                </div>
+              </>
+            )}
           </div>
 
           <div className="flex space-x-2">
@@ -251,14 +888,35 @@ const Home: React.FC = () => {
             >
               Back
             </button>
-            <button
-              onClick={createNewRoom}
-              disabled={isLoading}
-              className="flex-1 bg-green-600 text-white py-1 px-3 text-sm rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
-            >
-              {isLoading ? 'Creating...' : 'Create Room'}
-            </button>
+            {!isQuickMatch ? (
+              <button
+                onClick={createNewRoom}
+                disabled={isLoading}
+                className="flex-1 bg-green-600 text-white py-1 px-3 text-sm rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {isLoading ? 'Creating...' : 'Create Room'}
+              </button>
+            ) : queueStatus ? (
+              <button
+                onClick={cancelQuickMatch}
+                className="flex-1 bg-red-600 text-white py-1 px-3 text-sm rounded-md hover:bg-red-700 transition-colors"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={startQuickMatch}
+                className="flex-1 bg-blue-600 text-white py-1 px-3 text-sm rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Find Match
+              </button>
+            )}
           </div>
+          {isQuickMatch && queueStatus && (
+            <p className="text-xs text-gray-500 mt-2 text-center">
+              Searching for opponents… ({queueStatus.waiting} waiting in this queue)
+            </p>
+          )}
         </div>
       )}
     </div>
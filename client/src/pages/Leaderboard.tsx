@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SERVER_URL } from '../config';
+import { getPlayerId } from '../identity';
+
+interface PlayerRecord {
+  id: string;
+  nickname: string | null;
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+const Leaderboard: React.FC = () => {
+  const navigate = useNavigate();
+  const [players, setPlayers] = useState<PlayerRecord[] | null>(null);
+  const [me, setMe] = useState<PlayerRecord | null>(null);
+  const [error, setError] = useState('');
+  const myId = getPlayerId();
+
+  useEffect(() => {
+    const loadLeaderboard = async () => {
+      try {
+        const response = await fetch(`${SERVER_URL}/api/leaderboard`);
+        if (!response.ok) throw new Error('Failed to load leaderboard');
+        const data: { players: PlayerRecord[] } = await response.json();
+        setPlayers(data.players);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+        console.error('Error loading leaderboard:', err);
+      }
+    };
+    loadLeaderboard();
+  }, []);
+
+  // 自己不在榜单前列时单独显示战绩
+  useEffect(() => {
+    if (!myId) return;
+    const loadMe = async () => {
+      try {
+        const response = await fetch(`${SERVER_URL}/api/players/${myId}`);
+        if (response.ok) setMe(await response.json());
+      } catch (err) {
+        console.error('Error loading player:', err);
+      }
+    };
+    loadMe();
+  }, [myId]);
+
+  return (
+    <div className="h-screen flex flex-col overflow-y-auto bg-amber-100">
+      {/* Header */}
+      <div className="bg-amber-200 shadow-sm border-b border-amber-300 px-3 py-2 sm:px-4 sm:py-3">
+        <div className="flex items-center space-x-2 sm:space-x-4">
+          <button
+            onClick={() => navigate('/')}
+            className="text-sm text-amber-800 hover:text-amber-900 transition-colors"
+          >
+            ← Back
+          </button>
+          <h1 className="text-sm font-semibold text-amber-900 sm:text-xl">Leaderboard</h1>
+        </div>
+      </div>
+
+      <div className="w-full max-w-2xl mx-auto p-3 sm:p-4 space-y-3">
+        {me && (
+          <div className="bg-amber-50 rounded-lg p-4 border border-amber-300 text-sm text-amber-800">
+            <span className="font-semibold">Your rating: {me.rating}</span>
+            <span className="ml-2 text-amber-600">
+              {me.games} games · {me.wins}W {me.losses}L {me.draws}D
+            </span>
+          </div>
+        )}
+
+        <div className="bg-amber-50 rounded-lg p-4 border border-amber-300">
+          {error ? (
+            <p className="text-sm font-bold text-amber-700">{error}</p>
+          ) : !players ? (
+            <p className="text-sm text-amber-600">Loading leaderboard...</p>
+          ) : players.length === 0 ? (
+            <p className="text-sm text-amber-600">No rated games have been played yet.</p>
+          ) : (
+            <table className="w-full text-sm text-amber-900">
+              <thead>
+                <tr className="text-left text-xs text-amber-600 border-b border-amber-300">
+                  <th className="py-1 w-10">#</th>
+                  <th className="py-1">Player</th>
+                  <th className="py-1 text-right">Rating</th>
+                  <th className="py-1 text-right">Games</th>
+                  <th className="py-1 text-right">W / L / D</th>
+                </tr>
+              </thead>
+              <tbody>
+                {players.map((player, index) => (
+                  <tr
+                    key={player.id}
+                    className={`border-b border-amber-200 ${player.id === myId ? 'bg-blue-100 font-semibold' : ''}`}
+                  >
+                    <td className="py-1 text-amber-600">{index + 1}</td>
+                    <td className="py-1">{player.nickname || 'Anonymous'}{player.id === myId ? ' (You)' : ''}</td>
+                    <td className="py-1 text-right font-mono">{player.rating}</td>
+                    <td className="py-1 text-right">{player.games}</td>
+                    <td className="py-1 text-right">{player.wins} / {player.losses} / {player.draws}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
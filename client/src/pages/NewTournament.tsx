@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SERVER_URL } from '../config';
+import { getPlayerToken, savePlayerToken } from '../identity';
+import { TIME_CONTROLS } from '../timeControls';
+import type { TimeControl, TournamentFormat } from '../types';
+
+type RuleSet = 'freestyle' | 'standard' | 'renju';
+type OpeningRule = 'none' | 'swap' | 'swap2';
+
+const FORMATS: { value: TournamentFormat; label: string; description: string }[] = [
+  { value: 'round-robin', label: 'Round Robin', description: 'Everyone plays everyone once. Win 1 point, draw ½.' },
+  { value: 'knockout', label: 'Knockout', description: 'Single elimination. Drawn games are replayed with colours swapped.' }
+];
+
+const RULE_SETS: { value: RuleSet; label: string }[] = [
+  { value: 'freestyle', label: 'Freestyle' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'renju', label: 'Renju' }
+];
+
+const OPENING_RULES: { value: OpeningRule; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'swap', label: 'Swap' },
+  { value: 'swap2', label: 'Swap2' }
+];
+
+const optionClass = (selected: boolean) =>
+  `flex-1 py-1.5 px-2 rounded text-xs font-medium border transition-colors ${
+    selected
+      ? 'bg-amber-600 text-white border-amber-600'
+      : 'bg-amber-50 text-amber-800 border-amber-300 hover:bg-amber-100'
+  }`;
+
+// 组织锦标赛：参赛者每行一个名字，所有对局使用同一套两人五子棋设置
+const NewTournament: React.FC = () => {
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('round-robin');
+  const [participantText, setParticipantText] = useState('');
+  const [boardSize, setBoardSize] = useState<15 | 19>(15);
+  const [winCondition, setWinCondition] = useState<4 | 5 | 6>(5);
+  const [ruleSet, setRuleSet] = useState<RuleSet>('freestyle');
+  const [opening, setOpening] = useState<OpeningRule>('none');
+  const [timeControl, setTimeControl] = useState<TimeControl>({ type: 'none' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const participants = participantText.split('\n').map(line => line.trim()).filter(Boolean);
+  // 连珠规则只适用于五子
+  const effectiveRuleSet = ruleSet === 'renju' && winCondition !== 5 ? 'standard' : ruleSet;
+
+  const createTournament = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`${SERVER_URL}/api/tournaments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          format,
+          participants,
+          boardSize,
+          winCondition,
+          ruleSet: effectiveRuleSet,
+          opening,
+          timeControl,
+          playerToken: getPlayerToken()
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to create tournament. Please try again.');
+      }
+
+      // 组织者凭玩家令牌看到各场对局的邀请链接
+      const data = await response.json();
+      if (data.playerToken) savePlayerToken(data.playerToken);
+      navigate(`/tournament/${data.tournamentId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create tournament. Please try again.');
+      console.error('Error creating tournament:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col overflow-y-auto bg-amber-100">
+      {/* Header */}
+      <div className="bg-amber-200 shadow-sm border-b border-amber-300 px-3 py-2 sm:px-4 sm:py-3">
+        <div className="flex items-center space-x-2 sm:space-x-4">
+          <button
+            onClick={() => navigate('/')}
+            className="text-sm text-amber-800 hover:text-amber-900 transition-colors"
+          >
+            ← Back
+          </button>
+          <h1 className="text-sm font-semibold text-amber-900 sm:text-xl">New Tournament</h1>
+        </div>
+      </div>
+
+      <div className="w-full max-w-2xl mx-auto p-3 sm:p-4 space-y-3">
+        <div className="bg-amber-50 rounded-lg p-4 border border-amber-300 space-y-4 text-sm text-amber-900">
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Tournament name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              placeholder="Friday Gomoku Cup"
+              className="w-full px-3 py-2 border border-amber-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Format</label>
+            <div className="flex space-x-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={optionClass(format === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-amber-600">
+              {FORMATS.find(option => option.value === format)?.description}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">
+              Participants ({participants.length}, one per line)
+            </label>
+            <textarea
+              value={participantText}
+              onChange={(e) => setParticipantText(e.target.value)}
+              rows={6}
+              placeholder={'Alice\nBob\nCarol'}
+              className="w-full px-3 py-2 border border-amber-300 rounded bg-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Board size</label>
+            <div className="flex space-x-2">
+              {([15, 19] as const).map(size => (
+                <button key={size} type="button" onClick={() => setBoardSize(size)} className={optionClass(boardSize === size)}>
+                  {size}×{size}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Win condition</label>
+            <div className="flex space-x-2">
+              {([4, 5, 6] as const).map(count => (
+                <button key={count} type="button" onClick={() => setWinCondition(count)} className={optionClass(winCondition === count)}>
+                  {count} in a row
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Rules</label>
+            <div className="flex space-x-2">
+              {RULE_SETS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  disabled={option.value === 'renju' && winCondition !== 5}
+                  onClick={() => setRuleSet(option.value)}
+                  className={`${optionClass(effectiveRuleSet === option.value)} disabled:opacity-40 disabled:cursor-not-allowed`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Opening</label>
+            <div className="flex space-x-2">
+              {OPENING_RULES.map(option => (
+                <button key={option.value} type="button" onClick={() => setOpening(option.value)} className={optionClass(opening === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-amber-800 mb-1">Time control</label>
+            <div className="grid grid-cols-3 gap-2">
+              {TIME_CONTROLS.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setTimeControl(option.value)}
+                  className={optionClass(JSON.stringify(timeControl) === JSON.stringify(option.value))}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+          <button
+            type="button"
+            onClick={createTournament}
+            disabled={isLoading || !name.trim() || participants.length < 2}
+            className="w-full bg-amber-600 text-white py-2 px-4 rounded font-medium hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoading ? 'Creating...' : 'Create Tournament'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewTournament;
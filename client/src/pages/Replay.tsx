@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { SERVER_URL } from '../config';
+import { formatCoordinate } from '../notation';
+import { describeResultReason } from '../results';
+import Board from '../components/Board';
+import { getVariantLabel } from '../variants';
+import { boardFromMoves } from '../rules';
+import type { Move, Side, Variant } from '../types';
+
+interface ArchivedGame {
+  id: string;
+  settings: {
+    playerCount: 2 | 3;
+    winCondition: 4 | 5 | 6;
+    boardSize: 15 | 19;
+    variant?: Variant;
+  };
+  // 各座位的昵称，未填写时为 null
+  players?: { black: string | null; white: string | null; third?: string | null };
+  moves: Move[];
+  result: { winner: Side | null; draw: boolean; reason?: string; loser?: Side };
+  finishedAt: string;
+}
+
+// 自动播放每步间隔
+const AUTOPLAY_SPEEDS = [
+  { label: '0.5s', ms: 500 },
+  { label: '1s', ms: 1000 },
+  { label: '2s', ms: 2000 }
+];
+
+const sideLabel = (side: Side) => side.charAt(0).toUpperCase() + side.slice(1);
+
+// 有昵称时显示昵称
+const playerName = (game: ArchivedGame, side: Side) =>
+  game.players?.[side === 'green' ? 'third' : side] || sideLabel(side);
+
+const Replay: React.FC = () => {
+  const { gameId } = useParams();
+  const navigate = useNavigate();
+  const [game, setGame] = useState<ArchivedGame | null>(null);
+  const [error, setError] = useState('');
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1000);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    const loadGame = async () => {
+      try {
+        const response = await fetch(`${SERVER_URL}/api/games/${gameId}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Game not found' : 'Failed to load game');
+        }
+        const data: ArchivedGame = await response.json();
+        setGame(data);
+        setStep(data.moves.length); // 默认显示终局
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load game');
+        console.error('Error loading game:', err);
+      }
+    };
+    loadGame();
+  }, [gameId]);
+
+  // 自动播放：到最后一步自动停止
+  useEffect(() => {
+    if (!isPlaying || !game) return;
+    if (step >= game.moves.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(prev => prev + 1), speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, speed, game]);
+
+  // 根据当前步数重建棋盘与手数
+  const { board, moveNumbers, lastMove } = useMemo(() => {
+    const size = game?.settings.boardSize ?? 15;
+    const shown = game ? game.moves.slice(0, step) : [];
+    const { board } = boardFromMoves(shown, size);
+    // 被 Pente 提走的棋子不再显示手数，由棋盘上是否有子决定
+    const moveNumbers: (number | null)[][] = Array.from({ length: size }, () => Array(size).fill(null));
+    shown.forEach((move, index) => {
+      moveNumbers[move.y][move.x] = index + 1;
+    });
+    const last = shown[shown.length - 1];
+    return { board, moveNumbers, lastMove: last ? { x: last.x, y: last.y } : null };
+  }, [game, step]);
+
+  const totalMoves = game?.moves.length ?? 0;
+
+  const goToStep = (target: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(totalMoves, target)));
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // 已在终局时从头开始播放
+    if (step >= totalMoves) setStep(0);
+    setIsPlaying(true);
+  };
+
+  const copyReplayLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+  };
+
+  return (
+    <div className="h-screen flex flex-col overflow-y-auto bg-amber-100 lg:overflow-hidden">
+      {/* Header */}
+      <div className="bg-amber-200 shadow-sm border-b border-amber-300 px-3 py-2 sm:px-4 sm:py-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex min-w-0 items-center space-x-2 sm:space-x-4">
+            <button
+              onClick={() => navigate('/')}
+              className="text-sm text-amber-800 hover:text-amber-900 transition-colors"
+            >
+              ← Back
+            </button>
+            <h1 className="truncate text-sm font-semibold text-amber-900 sm:text-xl">Replay: {gameId}</h1>
+          </div>
+          <button
+            onClick={copyReplayLink}
+            className="px-2 py-1 bg-blue-600 text-white text-xs sm:text-sm rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Copy Replay Link
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-lg font-bold text-amber-700">{error}</p>
+        </div>
+      ) : !game ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-sm text-amber-600">Loading game...</p>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col lg:flex-row">
+          {/* Game Board */}
+          <div className="flex-1 flex items-center justify-center p-2 sm:p-4">
+            <Board board={board} lastMove={lastMove} moveNumbers={moveNumbers} />
+          </div>
+
+          {/* Sidebar */}
+          <div className="w-full lg:w-80 bg-amber-200 border-t lg:border-t-0 lg:border-l border-amber-300 p-3 sm:p-4 space-y-3 sm:space-y-4">
+            {/* Result */}
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">Result</h3>
+              <p className="text-lg font-bold text-black">
+                {game.result.draw ? "It's a Draw!" : game.result.winner ? `${playerName(game, game.result.winner)} Wins!` : 'Unfinished'}
+              </p>
+              {describeResultReason(game.result.reason, game.result.loser ? playerName(game, game.result.loser) : null) && (
+                <p className="text-sm text-amber-700">
+                  {describeResultReason(game.result.reason, game.result.loser ? playerName(game, game.result.loser) : null)}
+                </p>
+              )}
+              <p className="text-xs text-amber-600 mt-1">
+                Finished {new Date(game.finishedAt).toLocaleString()}
+              </p>
+            </div>
+
+            {/* Controls */}
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">Controls</h3>
+              <p className="text-sm text-amber-700 mb-2">Move {step} / {totalMoves}</p>
+              <input
+                type="range"
+                min={0}
+                max={totalMoves}
+                value={step}
+                onChange={(e) => goToStep(Number(e.target.value))}
+                className="w-full mb-2"
+              />
+              <div className="flex space-x-1 mb-2">
+                <button
+                  onClick={() => goToStep(0)}
+                  disabled={step === 0}
+                  className="flex-1 px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors disabled:opacity-50"
+                >
+                  ⏮
+                </button>
+                <button
+                  onClick={() => goToStep(step - 1)}
+                  disabled={step === 0}
+                  className="flex-1 px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors disabled:opacity-50"
+                >
+                  ◀
+                </button>
+                <button
+                  onClick={togglePlay}
+                  disabled={totalMoves === 0}
+                  className="flex-1 px-2 py-1 bg-blue-600 text-white text-xs rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {isPlaying ? '⏸' : '▶'}
+                </button>
+                <button
+                  onClick={() => goToStep(step + 1)}
+                  disabled={step === totalMoves}
+                  className="flex-1 px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors disabled:opacity-50"
+                >
+                  ▶
+                </button>
+                <button
+                  onClick={() => goToStep(totalMoves)}
+                  disabled={step === totalMoves}
+                  className="flex-1 px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors disabled:opacity-50"
+                >
+                  ⏭
+                </button>
+              </div>
+              <div className="flex items-center space-x-2 text-xs text-amber-700">
+                <span>Speed:</span>
+                {AUTOPLAY_SPEEDS.map(option => (
+                  <button
+                    key={option.ms}
+                    type="button"
+                    onClick={() => setSpeed(option.ms)}
+                    className={`flex-1 py-1 px-2 text-xs rounded border transition-colors ${
+                      speed === option.ms
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-gray-100 text-gray-700 border-gray-300 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Move List */}
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">Moves</h3>
+              {totalMoves === 0 ? (
+                <p className="text-sm text-amber-600">No moves</p>
+              ) : (
+                <ol className="max-h-40 overflow-y-auto grid grid-cols-3 gap-x-2 gap-y-1 text-sm text-amber-800">
+                  {game.moves.map((move, index) => (
+                    <li
+                      key={index}
+                      onClick={() => goToStep(index + 1)}
+                      className={`flex items-center space-x-1 cursor-pointer rounded ${
+                        index + 1 === step ? 'bg-blue-100' : 'hover:bg-amber-50'
+                      }`}
+                    >
+                      <span className="text-xs text-amber-600 w-6 text-right">{index + 1}.</span>
+                      <div className={`w-2 h-2 rounded-full ${
+                        move.player === 'black' ? 'bg-gray-800' :
+                        move.player === 'white' ? 'bg-white border border-gray-300' :
+                        'bg-green-500'
+                      }`}></div>
+                      <span className="font-mono">{formatCoordinate(move.x, move.y, game.settings.boardSize)}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            {/* Game Info */}
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">Game Info</h3>
+              <div className="space-y-2 text-sm text-amber-700">
+                <p>Variant: {getVariantLabel(game.settings.variant)}</p>
+                <p>Board Size: {game.settings.boardSize}×{game.settings.boardSize}</p>
+                <p>Win Condition: {game.settings.winCondition} in a row</p>
+                <p>Players: {game.settings.playerCount}</p>
+                {game.players && (
+                  <p>
+                    {(['black', 'white', 'green'] as Side[])
+                      .slice(0, game.settings.playerCount)
+                      .map(side => `${sideLabel(side)}: ${playerName(game, side)}`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="mt-3 flex flex-wrap gap-2">
+                <a
+                  href={`${SERVER_URL}/api/games/${game.id}/record?format=coordinates`}
+                  className="px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors"
+                >
+                  Download .txt
+                </a>
+                <a
+                  href={`${SERVER_URL}/api/games/${game.id}/record?format=psq`}
+                  className="px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors"
+                >
+                  Download .psq
+                </a>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Replay;
@@ -1,41 +1,133 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { io, Socket } from 'socket.io-client';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useLocation, useSearchParams, Link } from 'react-router-dom';
+import { io } from 'socket.io-client';
 import { SERVER_URL, CONFIG } from '../config';
+import { getPlayerToken, savePlayerToken, savePlayerId, getProfile } from '../identity';
+import { formatCoordinate } from '../notation';
+import { describeResultReason } from '../results';
+import { getVariantLabel } from '../variants';
+import {
+  CAPTURES_TO_WIN,
+  EMPTY,
+  SIDE_NUMBERS,
+  applyMove,
+  boardFromMoves,
+  cloneGame,
+  createEmptyBoard,
+  getMoveError,
+  sideOfNumber,
+  type Board as BoardCells,
+  type GameState as RulesGameState,
+  type Point
+} from '../rules';
+import {
+  PROTOCOL_VERSION,
+  checkSequence,
+  type OpeningState,
+  type PlayerProfile,
+  type RatingChanges,
+  type ClientToServerEvents,
+  type RoomSnapshot,
+  type RoomSocket,
+  type RoomStatePayload
+} from '../protocol';
+import Board from '../components/Board';
+import GameClocks from '../components/GameClocks';
+import ChatPanel from '../components/ChatPanel';
+import Avatar from '../components/Avatar';
+import HostPanel, { type HostSeat, type KickTarget } from '../components/HostPanel';
+import type { ChatMessage, ClockState, Move, RoomSettings, SeatKey, SeriesState, Side } from '../types';
 
 interface Player {
   id: string;
   name: string;
-  symbol: 'X' | 'O' | 'T';
+  side: Side;
   isCurrentTurn: boolean;
   isConnected: boolean; // Added isConnected property
+  color: string | null; // 头像颜色
 }
 
 interface GameState {
-  board: (string | null)[][];
-  currentPlayer: 'X' | 'O' | 'T';
-  winner: string | null;
+  board: BoardCells;
+  // 下一子的颜色
+  currentPlayer: Side;
+  winner: Side | null;
   gameOver: boolean;
   isDraw: boolean;
-  lastMove: { x: number; y: number } | null;
-  settings: {
-    playerCount: 2 | 3;
-    winCondition: 4 | 5 | 6;
-    boardSize: 15 | 19;
-  };
+  // 结束原因（如 timeout）与超时方
+  resultReason?: string | null;
+  loser?: Side | null;
+  lastMove: Point | null;
+  moves: Move[];
+  settings: RoomSettings;
 }
 
+const OPENING_LABELS = {
+  none: 'None',
+  swap: 'Swap',
+  swap2: 'Swap2'
+};
+
+const OPENING_CHOICE_LABELS = {
+  black: 'Play Black',
+  white: 'Play White',
+  place2: 'Place 2 more'
+};
+
+const RULE_SET_LABELS = {
+  freestyle: 'Freestyle',
+  standard: 'Standard (exactly five)',
+  renju: 'Renju'
+};
+
+// 服务器拒绝落子时的原因说明
+const MOVE_REJECTION_MESSAGES: Record<string, string> = {
+  'overline': 'Forbidden move: overline (six or more in a row)',
+  'double-four': 'Forbidden move: double four',
+  'double-three': 'Forbidden move: double three',
+  'not-your-turn': 'It is not your turn',
+  'occupied': 'That point is already taken',
+  'off-board': 'That point is off the board',
+  'game-over': 'The game is already over',
+  'not-seated': 'Spectators cannot place stones',
+  'not-in-room': 'You are not in this room'
+};
+
+// 请求快照后等待回复的时长，超时则重新请求
+const SNAPSHOT_TIMEOUT_MS = 5000;
+
+// 只有房主能发的事件
+type HostEvent = 'kick' | 'lock_room' | 'swap_seats' | 'promote_spectator' | 'update_settings' | 'create_invite' | 'revoke_invite' | 'set_password';
+
+const SIDE_LABELS: Record<Side, string> = {
+  black: 'Black',
+  white: 'White',
+  green: 'Green'
+};
+
+// 座位显示名：有昵称用昵称，否则按阵营
+const getSeatName = (side: Side, profile?: PlayerProfile | null) =>
+  profile?.nickname || `${SIDE_LABELS[side]} Player`;
+
 const Room: React.FC = () => {
   const { roomId } = useParams();
   const navigate = useNavigate();
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  // 进房凭据：首页表单带来的密码、邀请链接中的邀请码；密码提示框提交后更新
+  const credentialsRef = useRef<{ password?: string; invite?: string }>({
+    password: (location.state as { password?: string } | null)?.password,
+    invite: searchParams.get('invite') || undefined
+  });
+  const [socket, setSocket] = useState<RoomSocket | null>(null);
   const [gameState, setGameState] = useState<GameState>({
-    board: Array(15).fill(null).map(() => Array(15).fill(null)),
-    currentPlayer: 'X',
+    board: createEmptyBoard(15),
+    currentPlayer: 'black',
     winner: null,
     gameOver: false,
     isDraw: false,
     lastMove: null,
+    moves: [],
     settings: {
       playerCount: 2,
       winCondition: 5,
@@ -47,33 +139,46 @@ const Room: React.FC = () => {
   const [isMyTurn, setIsMyTurn] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [allPlayersConnected, setAllPlayersConnected] = useState(false);
-  const [viewportSize, setViewportSize] = useState(() => ({
-    width: typeof window !== 'undefined' ? window.innerWidth : 1280,
-    height: typeof window !== 'undefined' ? window.innerHeight : 720
-  }));
-
-  useEffect(() => {
-    const handleResize = () => {
-      setViewportSize({
-        width: window.innerWidth,
-        height: window.innerHeight
-      });
-    };
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
-
-  const isMobileLayout = viewportSize.width < 1024;
-  const boardSize = gameState.settings.boardSize;
-  const desktopCellSize = 32;
-  const mobileMaxBoardWidth = Math.max(220, viewportSize.width - 24);
-  const mobileMaxBoardHeight = Math.max(220, viewportSize.height - 260);
-  const mobileCellSize = Math.max(14, Math.floor(Math.min(mobileMaxBoardWidth, mobileMaxBoardHeight) / boardSize));
-  const cellSize = isMobileLayout ? mobileCellSize : desktopCellSize;
-  const pieceSize = Math.max(10, Math.floor(cellSize * 0.75));
-  const boardPixelSize = boardSize * cellSize;
-
+  const [reconnectingSides, setReconnectingSides] = useState({ black: false, white: false, green: false });
+  const [takeback, setTakeback] = useState<{ by: Side } | null>(null);
+  const [recordError, setRecordError] = useState('');
+  const [gameId, setGameId] = useState<string | null>(null);
+  const [forbiddenPoints, setForbiddenPoints] = useState<{ x: number; y: number }[]>([]);
+  const [moveError, setMoveError] = useState('');
+  // 已发出、等待服务器确认的落子，确认或被拒之前先按共用规则显示在棋盘上
+  const [pendingMove, setPendingMove] = useState<Point | null>(null);
+  const [opening, setOpening] = useState<OpeningState | null>(null);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [seatRatings, setSeatRatings] = useState<Partial<Record<SeatKey, number | null>> | null>(null);
+  const [ratingChanges, setRatingChanges] = useState<RatingChanges | null>(null);
+  const [spectators, setSpectators] = useState<({ id: string } & PlayerProfile)[]>([]);
+  // 由电脑控制的座位：内置电脑为难度，外部引擎为 'engine'，外部机器人为 'external'
+  const [seatBots, setSeatBots] = useState<Partial<Record<SeatKey, string | null>>>({});
+  const [myPlayerId, setMyPlayerId] = useState<string | null>(null);
+  // 房主（公开 id 与当前阵营）、房间是否锁定、待同意的重开请求
+  const [host, setHost] = useState<{ playerId: string; side: Side | 'spectator' | null } | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [series, setSeries] = useState<SeriesState | null>(null);
+  // 待回应的和棋提议、三人局中已认输的阵营、和棋被拒等提示
+  const [drawOffer, setDrawOffer] = useState<{ by: Side; pending: Side[] } | null>(null);
+  const [resignedSides, setResignedSides] = useState<Side[]>([]);
+  // Pente 中各方已提走的对数，其余玩法为 null
+  const [captures, setCaptures] = useState<{ black: number; white: number } | null>(null);
+  const [gameNotice, setGameNotice] = useState('');
+  const [resetRequest, setResetRequest] = useState<{ by: Side; pending: Side[] } | null>(null);
+  const [hostError, setHostError] = useState('');
+  // 被房主踢出或无法进入房间时的说明
+  const [removedMessage, setRemovedMessage] = useState('');
+  // 房间需要密码时显示输入框，值为上次提交的错误说明
+  const [passwordPrompt, setPasswordPrompt] = useState<string | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [hasPassword, setHasPassword] = useState(false);
+  const [reservedSeats, setReservedSeats] = useState<SeatKey[]>([]);
+  // 房主签发的邀请码，只在本页保存
+  const [inviteCodes, setInviteCodes] = useState<Partial<Record<SeatKey, string>>>({});
+  const recordInputRef = useRef<HTMLInputElement>(null);
   useEffect(() => {
     if (!roomId) return;
 
@@ -81,16 +186,68 @@ const Room: React.FC = () => {
     console.log('Room ID:', roomId);
 
     // 连接到WebSocket服务器
-    const newSocket = io(SERVER_URL, CONFIG.SOCKET_OPTIONS);
+    const newSocket: RoomSocket = io(SERVER_URL, CONFIG.SOCKET_OPTIONS);
     setSocket(newSocket);
 
-    // 加入房间
-    newSocket.emit('join_room', { roomId });
+    // 状态序号：joined 与 state_snapshot 设定起点，之后带序号的广播须逐一连续
+    // 漏收事件或协议版本与服务器不一致时，丢弃增量事件，改为请求完整快照
+    let lastSeq: number | null = null;
+    let awaitingSnapshot = false;
+    let protocolMismatch = false;
+    let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+    const stopAwaitingSnapshot = () => {
+      awaitingSnapshot = false;
+      if (snapshotTimer) clearTimeout(snapshotTimer);
+      snapshotTimer = null;
+    };
+    const requestSnapshot = () => {
+      if (awaitingSnapshot) return;
+      awaitingSnapshot = true;
+      newSocket.emit('get_room_state', { roomId });
+      // 回复丢失时不一直等下去
+      snapshotTimer = setTimeout(() => {
+        console.warn('No state snapshot received, requesting again');
+        stopAwaitingSnapshot();
+        requestSnapshot();
+      }, SNAPSHOT_TIMEOUT_MS);
+    };
+    const sequenced = <T extends { seq: number }>(handler: (data: T) => void) => (data: T) => {
+      if (awaitingSnapshot) return;
+      const status = protocolMismatch ? 'gap' : checkSequence(lastSeq, data.seq);
+      if (status === 'gap') {
+        console.warn('State sequence gap:', lastSeq, '->', data.seq);
+        requestSnapshot();
+        return;
+      }
+      if (status === 'stale') return;
+      lastSeq = data.seq;
+      handler(data);
+    };
 
-    // 监听连接状态
+    // 加入房间；joined 带有完整快照
+    const joinRoom = () => {
+      newSocket.emit('join_room', {
+        roomId,
+        playerToken: getPlayerToken(),
+        ...getProfile(),
+        ...credentialsRef.current,
+        protocolVersion: PROTOCOL_VERSION
+      });
+    };
+
+    // 监听连接状态；每次（重新）连接都带上玩家令牌加入房间，以找回原座位
     newSocket.on('connect', () => {
       setIsConnected(true);
       console.log('Connected to server, socket ID:', newSocket.id);
+      joinRoom();
+      newSocket.emit('clock_sync', { clientTime: Date.now() });
+    });
+
+    // 校时：假定往返时间对半分，估算服务器时钟与本地时钟之差
+    newSocket.on('clock_sync', (data) => {
+      const receivedAt = Date.now();
+      const roundTrip = receivedAt - data.clientTime;
+      setClockOffset(data.serverTime + roundTrip / 2 - receivedAt);
     });
 
     newSocket.on('connect_error', (error) => {
@@ -98,135 +255,79 @@ const Room: React.FC = () => {
       setIsConnected(false);
     });
 
+    // 断线期间不再等快照，重连后的 joined 会带来新的起点
     newSocket.on('disconnect', (reason) => {
       setIsConnected(false);
+      stopAwaitingSnapshot();
       console.log('Disconnected from server, reason:', reason);
     });
 
-    // 监听加入房间结果
-    newSocket.on('joined', (data: any) => {
-      setMySide(data.side);
-      
-      // 转换服务器数据格式到前端格式
-      const board = data.board.map((row: number[]) => 
-        row.map((cell: number) => {
-          if (cell === 0) return null;
-          if (cell === 1) return 'X';
-          if (cell === 2) return 'O';
-          if (cell === 3) return 'T';
-          return null;
-        })
-      );
-      
-      setGameState(prev => ({
-        ...prev,
-        board,
-        currentPlayer: data.turn === 1 ? 'X' : data.turn === 2 ? 'O' : 'T',
-        lastMove: null,
-        settings: data.settings || prev.settings
-      }));
-
-      // 设置初始回合状态
-      setIsMyTurn(
-        (data.side === 'black' && data.turn === 1) || 
-        (data.side === 'white' && data.turn === 2) ||
-        (data.side === 'green' && data.turn === 3)
-      );
-
-      // 基于设置立即创建玩家列表
-      const playerCount = data.settings?.playerCount || 2;
-      const blackPlayer: Player = {
-        id: '1',
-        name: data.side === 'black' ? 'You (Black)' : 'Black Player',
-        symbol: 'X',
-        isCurrentTurn: data.turn === 1,
-        isConnected: !!data.players?.black
-      };
-      const whitePlayer: Player = {
-        id: '2',
-        name: data.side === 'white' ? 'You (White)' : 'White Player',
-        symbol: 'O',
-        isCurrentTurn: data.turn === 2,
-        isConnected: !!data.players?.white
-      };
-      let playersList: Player[] = [blackPlayer, whitePlayer];
-      if (playerCount === 3) {
-        const thirdPlayer: Player = {
-          id: '3',
-          name: data.side === 'green' ? 'You (Green)' : 'Green Player',
-          symbol: 'T',
-          isCurrentTurn: data.turn === 3,
-          isConnected: !!data.players?.third
-        };
-        playersList = [blackPlayer, whitePlayer, thirdPlayer];
-      }
-      setPlayers(playersList);
+    // 房间状态：座位、观战者、计时、房主与待回应的请求
+    const applyRoomState = (data: RoomStatePayload) => {
+      console.log('Room state:', data);
 
-      // 请求房间状态，随后以服务器状态为准
-      newSocket.emit('get_room_state', { roomId });
+      // 检查是否所有玩家都已连接；三人局中已认输的座位不再需要有人
+      const resigned = data.resigned;
+      const allConnected = (data.players.black || resigned.includes('black')) &&
+        (data.players.white || resigned.includes('white')) &&
+        (data.settings.playerCount === 2 || data.players.third || resigned.includes('green'));
+      setAllPlayersConnected(allConnected);
 
-      // 超时兜底：若 1.5s 内仍未收到 room_state，则基于当前设置确保有 3 个玩家位
-      const ensureTimeout = setTimeout(() => {
-        if (playerCount === 3) {
-          setPlayers(prev => {
-            if (prev.length === 3) return prev;
-            const hasThird = prev.some(p => p.symbol === 'T');
-            if (hasThird) return prev;
-            const third: Player = {
-              id: '3',
-              name: 'Green Player',
-              symbol: 'T',
-              isCurrentTurn: data.turn === 3,
-              isConnected: !!data.players?.third
-            };
-            return [...prev, third];
-          });
-        }
-      }, 1500);
-
-      // 在 socket 关闭时清理
-      newSocket.once('room_state', () => clearTimeout(ensureTimeout));
-    });
+      setForbiddenPoints(data.forbiddenPoints || []);
+      setOpening(data.opening || null);
+      setClock(data.clock || null);
 
-    // 监听房间状态更新
-    newSocket.on('room_state', (data: any) => {
-      console.log('Room state:', data);
-      console.log('Current mySide:', mySide);
-      
-      // 检查是否所有玩家都已连接
-      const allConnected = data.players.black && data.players.white && 
-        (data.settings?.playerCount === 2 || data.players.third);
-      setAllPlayersConnected(allConnected);
-      console.log('All players connected:', allConnected);
+      // 断线但座位仍保留中的玩家
+      setReconnectingSides({
+        black: !!data.reconnecting?.black,
+        white: !!data.reconnecting?.white,
+        green: !!data.reconnecting?.third
+      });
       
-      // 根据当前玩家的身份设置正确的玩家信息
+      setSpectators(data.spectators || []);
+      setSeatRatings(data.ratings || null);
+      setSeatBots(data.bots || {});
+      setHost(data.host || null);
+      setLocked(!!data.locked);
+      setHasPassword(!!data.hasPassword);
+      setReservedSeats(data.reservedSeats || []);
+      setResetRequest(data.resetRequest || null);
+      setSeries(data.series || null);
+      setDrawOffer(data.drawOffer || null);
+      setResignedSides(resigned);
+      setCaptures(data.captures || null);
+
+      // 按服务器广播的昵称设置玩家信息，"(You)" 在渲染时标注
       const blackPlayer: Player = {
         id: '1', 
-        name: mySide === 'black' ? 'You (Black)' : 'Black Player', 
-        symbol: 'X' as const, 
+        name: getSeatName('black', data.profiles?.black), 
+        side: 'black', 
         isCurrentTurn: data.turn === 1,
-        isConnected: !!data.players?.black
+        isConnected: !!data.players?.black,
+        color: data.profiles?.black?.color || null
       };
       
       const whitePlayer: Player = {
         id: '2', 
-        name: mySide === 'white' ? 'You (White)' : 'White Player', 
-        symbol: 'O' as const, 
+        name: getSeatName('white', data.profiles?.white), 
+        side: 'white', 
         isCurrentTurn: data.turn === 2,
-        isConnected: !!data.players?.white
+        isConnected: !!data.players?.white,
+        color: data.profiles?.white?.color || null
       };
 
       // 根据游戏设置创建玩家列表 - 总是显示所有可能的玩家
       let playersList: Player[] = [];
       
-      if (data.settings?.playerCount === 3) {
+      if (data.settings.playerCount === 3) {
         // 三人游戏：黑、白、绿 - 显示所有3个玩家
         const thirdPlayer: Player = {
           id: '3',
-          name: mySide === 'green' ? 'You (Green)' : 'Green Player',
-          symbol: 'T' as const,
+          name: getSeatName('green', data.profiles?.third),
+          side: 'green',
           isCurrentTurn: data.turn === 3,
-          isConnected: !!data.players?.third
+          isConnected: !!data.players?.third,
+          color: data.profiles?.third?.color || null
         };
         playersList = [blackPlayer, whitePlayer, thirdPlayer];
       } else {
@@ -239,131 +340,281 @@ const Room: React.FC = () => {
       // 更新游戏状态中的当前玩家
       setGameState(prev => ({
         ...prev,
-        currentPlayer: data.turn === 1 ? 'X' : data.turn === 2 ? 'O' : 'T',
-        settings: data.settings || prev.settings
+        currentPlayer: sideOfNumber(data.turn),
+        settings: data.settings
       }));
       
       // 更新玩家连接状态
       setPlayers(prev => prev.map(player => ({
         ...player,
-        isConnected: (player.symbol === 'X' && !!data.players?.black) || 
-                    (player.symbol === 'O' && !!data.players?.white) || 
-                    (player.symbol === 'T' && !!data.players?.third)
+        isConnected: !!data.players?.[player.side === 'green' ? 'third' : player.side]
       })));
       
       console.log('Room state updated - turn:', data.turn, 'allConnected:', allConnected);
+    };
+
+    // 完整快照：以服务器的棋局与房间状态为准，并以其序号为新的起点
+    const applySnapshot = (data: RoomSnapshot) => {
+      lastSeq = data.seq;
+      stopAwaitingSnapshot();
+      protocolMismatch = data.protocolVersion !== PROTOCOL_VERSION;
+      if (protocolMismatch) {
+        console.warn('Protocol version mismatch: client', PROTOCOL_VERSION, 'server', data.protocolVersion);
+        setGameNotice('This page is out of date. Reload it to get the latest version.');
+      }
+
+      // 服务器棋盘与共用规则的表示一致，直接使用
+      const moves = data.moves;
+      const lastMove = moves.length > 0 ? moves[moves.length - 1] : null;
+      setPendingMove(null);
+      setGameState(prev => ({
+        ...prev,
+        board: data.board,
+        currentPlayer: sideOfNumber(data.turn),
+        lastMove: lastMove ? { x: lastMove.x, y: lastMove.y } : null,
+        moves,
+        winner: data.result?.winner || null,
+        gameOver: !!data.result,
+        isDraw: !!data.result?.draw,
+        resultReason: data.result?.reason || null,
+        loser: data.result?.loser || null,
+        settings: data.settings
+      }));
+      setTakeback(data.takeback);
+      setGameId(data.result?.gameId || null);
+      setRatingChanges(data.result?.ratings || null);
+      applyRoomState(data.room);
+    };
+
+    // 监听加入房间结果：带有完整快照
+    newSocket.on('joined', (data) => {
+      setMySide(data.side);
+      setPasswordPrompt(null);
+      if (data.playerToken) savePlayerToken(data.playerToken);
+      if (data.playerId) savePlayerId(data.playerId);
+      setMyPlayerId(data.playerId || null);
+      setRemovedMessage('');
+      setChatMessages(data.chat);
+      applySnapshot(data);
+
+      // 设置初始回合状态
+      setIsMyTurn(data.side === sideOfNumber(data.turn));
     });
 
+    // 请求快照的回复
+    newSocket.on('state_snapshot', applySnapshot);
+
+    // 监听房间状态更新
+    newSocket.on('room_state', sequenced((data) => applyRoomState(data)));
+
     // 监听棋子放置
-    newSocket.on('piece_placed', (data: any) => {
+    newSocket.on('piece_placed', sequenced((data) => {
       console.log('Piece placed:', data);
-      const { x, y, player } = data;
-      const symbol = player === 'black' ? 'X' : player === 'white' ? 'O' : 'T';
+      const { x, y, player, captured } = data;
+      setMoveError('');
+      setPendingMove(null);
       
+      // 棋盘按着法重建，Pente 提子随着法记录
       setGameState(prev => {
-        const newBoard = prev.board.map(row => [...row]);
-        newBoard[y][x] = symbol;
+        const moves: Move[] = [...prev.moves, captured.length > 0 ? { x, y, player, captured } : { x, y, player }];
         return {
           ...prev,
-          board: newBoard,
-          lastMove: { x, y } // 更新最后一步位置
+          board: boardFromMoves(moves, prev.board.length).board,
+          lastMove: { x, y }, // 更新最后一步位置
+          moves
         };
       });
-    });
+      if (captured.length > 0) {
+        setCaptures(prev => prev && { ...prev, [player]: prev[player as 'black' | 'white'] + captured.length / 2 });
+      }
+    }));
 
     // 监听回合变化
-    newSocket.on('turn_changed', (data: any) => {
+    newSocket.on('turn_changed', sequenced((data) => {
       console.log('Turn changed:', data);
-      console.log('Current mySide:', mySide);
-      console.log('All players connected:', allPlayersConnected);
-      
-      const currentPlayer = data.turn === 'black' ? 'X' : data.turn === 'white' ? 'O' : 'T';
+
+      const currentPlayer = data.turn;
       setGameState(prev => ({
         ...prev,
         currentPlayer
       }));
+      if (data.clock) setClock(data.clock);
       
       // 更新玩家状态
       setPlayers(prev => prev.map(player => ({
         ...player,
-        isCurrentTurn: (player.symbol === 'X' && data.turn === 'black') || 
-                      (player.symbol === 'O' && data.turn === 'white') ||
-                      (player.symbol === 'T' && data.turn === 'green'),
-        isConnected: (player.symbol === 'X' && !!data.players?.black) || 
-                    (player.symbol === 'O' && !!data.players?.white) || 
-                    (player.symbol === 'T' && !!data.players?.third)
+        isCurrentTurn: player.side === data.turn
       })));
-      
-      console.log('Turn changed to:', data.turn, 'currentPlayer:', currentPlayer);
-    });
+    }));
 
     // 监听游戏结束
-    newSocket.on('game_over', (data: any) => {
+    newSocket.on('game_over', sequenced((data) => {
       console.log('Game over:', data);
       setGameState(prev => ({
         ...prev,
-        winner: data.draw ? null : (data.winner === 'black' ? 'X' : data.winner === 'white' ? 'O' : 'T'),
+        winner: data.winner || null,
         gameOver: true,
-        isDraw: data.draw || false
+        isDraw: data.draw || false,
+        resultReason: data.reason || null,
+        loser: data.loser || null
       }));
-    });
+      setPendingMove(null);
+      setGameId(data.gameId || null);
+      setRatingChanges(data.ratings || null);
+    }));
 
-    // 监听游戏重置
-    newSocket.on('reset_done', (data: any) => {
+    // 监听游戏重置：黑棋先手，轮次随之同步
+    newSocket.on('reset_done', sequenced((data) => {
       console.log('Game reset:', data);
-      const board = data.board.map((row: number[]) => 
-        row.map((cell: number) => {
-          if (cell === 0) return null;
-          if (cell === 1) return 'X';
-          if (cell === 2) return 'O';
-          return null;
-        })
-      );
-      
-      setGameState({
-        board,
-        currentPlayer: 'X',
+      setPendingMove(null);
+      setGameState(prev => ({
+        board: data.board,
+        currentPlayer: data.turn,
         winner: null,
         gameOver: false,
         isDraw: false,
         lastMove: null,
-        settings: gameState.settings
-      });
-      
-      // 重置后黑棋先手
-      if (mySide) {
-        setIsMyTurn(mySide === 'black');
-        console.log('Game reset, mySide:', mySide, 'isMyTurn:', mySide === 'black');
+        moves: [],
+        settings: prev.settings
+      }));
+      setGameId(null);
+      setRatingChanges(null);
+      setGameNotice('');
+    }));
+
+    // 聊天消息
+    newSocket.on('chat_message', (message: ChatMessage) => {
+      setChatMessages(prev => [...prev, message]);
+    });
+
+    // 开局选色后座位互换
+    newSocket.on('side_changed', (data) => {
+      console.log('Side changed:', data);
+      setMySide(data.side);
+    });
+
+    // 和棋提议被拒绝，或三人局中有人认输退出
+    newSocket.on('draw_resolved', (data) => {
+      if (!data.accepted && data.by) setGameNotice(`Draw offer declined by ${data.by}`);
+    });
+
+    newSocket.on('player_resigned', (data) => {
+      setGameNotice(data.reason === 'abandonment' ? `${data.side} abandoned the game` : `${data.side} resigned`);
+    });
+
+    // 房主操作被拒绝
+    newSocket.on('host_error', (data) => {
+      setHostError(data.error);
+    });
+
+    // 被房主踢出，或房间已锁定 / 已被禁止进入
+    newSocket.on('kicked', (data) => {
+      setRemovedMessage(data.banned ? 'You have been banned from this room by the host.' : 'You were removed from this room by the host.');
+      newSocket.disconnect();
+    });
+
+    newSocket.on('join_error', (data) => {
+      // 缺少或输错密码时保持连接，等用户输入后重新加入
+      if (data.code === 'password_required' || data.code === 'wrong_password') {
+        setPasswordPrompt(data.code === 'wrong_password' ? data.error : '');
+        return;
       }
+      setRemovedMessage(data.error);
+      newSocket.disconnect();
     });
 
+    // 服务器拒绝的请求（负载不合法或请求过于频繁）
+    newSocket.on('request_error', (data) => {
+      console.warn('Request rejected:', data);
+      if (data.event === 'place_piece') {
+        setPendingMove(null);
+        setMoveError(data.error);
+      } else if (data.event === 'get_room_state') {
+        // 拿不到快照（如服务器已不认为本连接在房间中）时重新加入，以 joined 的快照为准
+        stopAwaitingSnapshot();
+        joinRoom();
+      } else {
+        setGameNotice(data.error);
+      }
+    });
+
+    newSocket.on('invite_created', (data) => {
+      setInviteCodes(prev => ({ ...prev, [data.seatKey]: data.code }));
+    });
+
+    // 落子被服务器拒绝（如连珠禁手、未轮到自己）
+    newSocket.on('move_rejected', (data) => {
+      console.log('Move rejected:', data);
+      setPendingMove(null);
+      setMoveError(MOVE_REJECTION_MESSAGES[data.reason] || `Move rejected: ${data.reason}`);
+    });
+
+    // 悔棋请求
+    newSocket.on('takeback_requested', (data) => {
+      console.log('Takeback requested:', data);
+      setTakeback({ by: data.by });
+    });
+
+    newSocket.on('takeback_resolved', sequenced((data) => {
+      console.log('Takeback resolved:', data);
+      setTakeback(null);
+      if (!data.accepted || !data.board || !data.moves || !data.turn) return;
+
+      const moves = data.moves;
+      const lastMove = moves.length > 0 ? moves[moves.length - 1] : null;
+      const currentPlayer = data.turn;
+      const board = data.board;
+      setPendingMove(null);
+      setGameState(prev => ({
+        ...prev,
+        board,
+        moves,
+        lastMove: lastMove ? { x: lastMove.x, y: lastMove.y } : null,
+        currentPlayer
+      }));
+    }));
+
     return () => {
       console.log('Cleaning up socket connection');
+      stopAwaitingSnapshot();
       newSocket.disconnect();
     };
   }, [roomId]);
 
-  // 当mySide改变时，重新计算回合状态
-  useEffect(() => {
-    if (mySide && socket) {
-      // 重新获取房间状态来确保回合状态正确
-      socket.emit('get_room_state', { roomId });
-    }
-  }, [mySide, socket, roomId]);
-
-  // 同步回合状态
+  // 同步回合状态；开局摆子阶段由行动方落子，不论棋子颜色
   useEffect(() => {
     if (mySide && gameState.currentPlayer && allPlayersConnected) {
-      const isMyTurn = (mySide === 'black' && gameState.currentPlayer === 'X') || 
-                      (mySide === 'white' && gameState.currentPlayer === 'O') ||
-                      (mySide === 'green' && gameState.currentPlayer === 'T');
+      const isMyTurn = opening
+        ? opening.stonesLeft > 0 && opening.actor === mySide
+        : mySide === gameState.currentPlayer;
       setIsMyTurn(isMyTurn);
       console.log('Turn state synced - mySide:', mySide, 'currentPlayer:', gameState.currentPlayer, 'bothConnected:', allPlayersConnected, 'isMyTurn:', isMyTurn);
     } else {
       setIsMyTurn(false);
       console.log('Turn state blocked - mySide:', mySide, 'currentPlayer:', gameState.currentPlayer, 'bothConnected:', allPlayersConnected);
     }
-  }, [mySide, gameState.currentPlayer, allPlayersConnected]);
+  }, [mySide, gameState.currentPlayer, allPlayersConnected, opening]);
+
+  // 以共用规则表示的当前局面，用于本地校验与乐观显示
+  const rulesGame: RulesGameState = {
+    board: gameState.board,
+    turn: SIDE_NUMBERS[gameState.currentPlayer],
+    moves: gameState.moves,
+    captures: captures || { black: 0, white: 0 },
+    resigned: resignedSides,
+    result: gameState.gameOver
+      ? { winner: gameState.winner, draw: gameState.isDraw, reason: gameState.resultReason || 'game-over' }
+      : null,
+    settings: gameState.settings
+  };
+
+  // 等待确认的落子按规则（含 Pente 提子）先行显示
+  const displayedBoard = (() => {
+    if (!pendingMove || getMoveError(rulesGame, pendingMove.x, pendingMove.y)) return gameState.board;
+    const predicted = cloneGame(rulesGame);
+    applyMove(predicted, pendingMove.x, pendingMove.y);
+    return predicted.board;
+  })();
 
   const handleCellClick = (row: number, col: number) => {
     console.log('=== Cell Click Debug ===');
@@ -372,12 +623,12 @@ const Room: React.FC = () => {
     console.log('Is my turn:', isMyTurn);
     console.log('Both players connected:', allPlayersConnected);
     console.log('Game over:', gameState.gameOver);
-    console.log('Cell is empty:', gameState.board[row][col] === null);
+    console.log('Cell is empty:', gameState.board[row][col] === EMPTY);
     console.log('My side:', mySide);
     console.log('Current player:', gameState.currentPlayer);
     console.log('=======================');
     
-    if (!socket) {
+    if (!socket || !roomId) {
       console.log('Click blocked: No socket connection');
       return;
     }
@@ -392,30 +643,339 @@ const Room: React.FC = () => {
       return;
     }
     
-    if (gameState.gameOver) {
-      console.log('Click blocked: Game is over');
+    if (pendingMove) {
+      console.log('Click blocked: Waiting for the previous move');
       return;
     }
-    
-    if (gameState.board[row][col] !== null) {
-      console.log('Click blocked: Cell is not empty');
+
+    // 与服务器同一套规则：对局已结束、已有棋子或禁手时不发请求
+    const placementError = getMoveError(rulesGame, col, row);
+    if (placementError) {
+      console.log('Click blocked:', placementError.reason);
+      if (placementError.forbidden) setMoveError(MOVE_REJECTION_MESSAGES[placementError.reason]);
       return;
     }
 
     console.log('Sending place_piece event');
-    // 发送下棋请求到服务器
+    // 发送下棋请求到服务器，确认前先显示
+    setMoveError('');
+    setPendingMove({ x: col, y: row });
     socket.emit('place_piece', { roomId, x: col, y: row });
   };
 
+  // 房主直接重开；其他棋手发起请求，需其余棋手同意
   const resetGame = () => {
-    if (!socket) return;
+    if (!socket || !roomId) return;
     socket.emit('reset_game', { roomId });
   };
 
+  const resign = () => {
+    if (!socket || !roomId || !window.confirm('Resign this game?')) return;
+    socket.emit('resign', { roomId });
+  };
+
+  const offerDraw = () => {
+    if (!socket || !roomId) return;
+    setGameNotice('');
+    socket.emit('offer_draw', { roomId });
+  };
+
+  const respondDraw = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respond_draw', { roomId, accept });
+  };
+
+  const respondReset = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respond_reset', { roomId, accept });
+  };
+
+  // 房主操作
+  const emitHostAction = <E extends HostEvent>(event: E, payload: Omit<Parameters<ClientToServerEvents[E]>[0], 'roomId'>) => {
+    if (!socket || !roomId) return;
+    setHostError('');
+    socket.emit(event, ...([{ roomId, ...payload }] as Parameters<ClientToServerEvents[E]>));
+  };
+
+  const opponentReconnecting = (Object.keys(reconnectingSides) as ('black' | 'white' | 'green')[])
+    .some(side => side !== mySide && reconnectingSides[side]);
+
+  const getConnectionDot = (side: 'black' | 'white' | 'green', connected: boolean | undefined) => {
+    if (connected) return { className: 'bg-green-500', title: 'Connected' };
+    if (reconnectingSides[side]) return { className: 'bg-yellow-500 animate-pulse', title: 'Reconnecting…' };
+    return { className: 'bg-gray-300', title: 'Not connected' };
+  };
+
+  // 玩家面板与结果中的显示名，自己的座位加 "(You)"
+  const getPlayerName = (side: Side) =>
+    players.find(p => p.side === side)?.name || getSeatName(side);
+  const getPlayerLabel = (side: Side) =>
+    `${getPlayerName(side)}${side === mySide ? ' (You)' : ''}${host?.side === side ? ' · Host' : ''}${resignedSides.includes(side) ? ' (resigned)' : ''}`;
+  const getPlayerColor = (side: Side) =>
+    players.find(p => p.side === side)?.color || null;
+
+  const getSeatRating = (side: Side) => seatRatings?.[side === 'green' ? 'third' : side] ?? null;
+
+  // Pente 中该方已提走的对数
+  // 外部机器人以注册的名字显示，另加标记与真人区分
+  const botBadge = (side: Side) => seatBots[side === 'green' ? 'third' : side] === 'external' && (
+    <span className="text-xs px-1 rounded bg-amber-200 text-amber-800" title="External bot">🤖 Bot</span>
+  );
+
+  const captureCount = (side: 'black' | 'white') => captures && (
+    <span className="text-xs text-amber-700" title="Captured pairs">
+      {captures[side]}/{CAPTURES_TO_WIN} captures
+    </span>
+  );
+
+  // 六子棋当前回合还需落下的棋子数（首手只下一子）
+  const stonesLeftThisTurn = gameState.settings.variant === 'connect6' && gameState.moves.length > 0
+    ? (gameState.moves.length % 2 === 1 ? 2 : 1)
+    : null;
+
+  // 计分对局结束后的等级分变化
+  const ratingChangesView = ratingChanges && (
+    <div className="mb-2 text-xs text-amber-700 space-y-0.5">
+      {(Object.keys(ratingChanges) as Side[]).map(side => {
+        const change = ratingChanges[side]!;
+        const delta = change.after - change.before;
+        return (
+          <p key={side}>
+            {getPlayerName(side)}: {change.before} → {change.after}{' '}
+            <span className={delta >= 0 ? 'text-green-700' : 'text-red-700'}>({delta >= 0 ? '+' : ''}{delta})</span>
+          </p>
+        );
+      })}
+    </div>
+  );
+
+  const resultReasonText = describeResultReason(
+    gameState.resultReason,
+    gameState.loser ? getPlayerName(gameState.loser) : null
+  );
+
+  const isSeated = mySide === 'black' || mySide === 'white' || mySide === 'green';
+  const isHost = !!host && !!myPlayerId && host.playerId === myPlayerId;
+  const hasResigned = isSeated && resignedSides.includes(mySide);
+  const canResign = isSeated && !hasResigned && !gameState.gameOver;
+
+  // 对局结束后的"新局"操作：房主直接开始，棋手需其余人同意
+  const newGameControls = resetRequest ? (
+    resetRequest.by === mySide ? (
+      <p className="text-sm text-amber-600">Waiting for the other players to agree…</p>
+    ) : mySide && mySide !== 'spectator' && resetRequest.pending.includes(mySide) ? (
+      <div>
+        <p className="text-sm text-amber-800 mb-1">{getPlayerName(resetRequest.by)} wants a new game</p>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => respondReset(true)}
+            className="flex-1 px-2 py-1 bg-green-600 text-white text-xs rounded-md hover:bg-green-700 transition-colors"
+          >
+            Accept
+          </button>
+          <button
+            onClick={() => respondReset(false)}
+            className="flex-1 px-2 py-1 bg-gray-500 text-white text-xs rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Decline
+          </button>
+        </div>
+      </div>
+    ) : (
+      <p className="text-sm text-amber-600">New game requested by {getPlayerName(resetRequest.by)}</p>
+    )
+  ) : (isHost || isSeated) && (
+    <button
+      onClick={resetGame}
+      className="px-4 py-2 bg-black text-black rounded-md hover:bg-gray-800 transition-colors"
+    >
+      {series && !series.finished && series.gamesPlayed > 0
+        ? (isHost ? 'Next Game' : 'Request Next Game')
+        : (isHost ? 'New Game' : 'Request New Game')}
+    </button>
+  );
+
+  // 对局中的和棋提议与认输
+  const gameActionControls = (
+    <div className="mt-2 space-y-2">
+      {gameNotice && <p className="text-xs text-amber-600">{gameNotice}</p>}
+      {hasResigned && <p className="text-sm text-amber-600">You resigned and are watching the rest of the game.</p>}
+      {drawOffer ? (
+        drawOffer.by === mySide ? (
+          <p className="text-sm text-amber-600">Draw offered…</p>
+        ) : isSeated && drawOffer.pending.includes(mySide) ? (
+          <div>
+            <p className="text-sm text-amber-800 mb-1">{getPlayerName(drawOffer.by)} offers a draw</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => respondDraw(true)}
+                className="flex-1 px-2 py-1 bg-green-600 text-white text-xs rounded-md hover:bg-green-700 transition-colors"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => respondDraw(false)}
+                className="flex-1 px-2 py-1 bg-gray-500 text-white text-xs rounded-md hover:bg-gray-600 transition-colors"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-amber-600">Draw offered by {getPlayerName(drawOffer.by)}</p>
+        )
+      ) : null}
+      {canResign && (
+        <div className="flex space-x-2">
+          {!drawOffer && (
+            <button
+              onClick={offerDraw}
+              className="px-2 py-1 bg-gray-500 text-white text-xs rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Offer Draw
+            </button>
+          )}
+          <button
+            onClick={resign}
+            className="px-2 py-1 bg-red-600 text-white text-xs rounded-md hover:bg-red-700 transition-colors"
+          >
+            Resign
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  const hostSeats: HostSeat[] = (['black', 'white', 'third'] as SeatKey[])
+    .slice(0, gameState.settings.playerCount)
+    .map(seatKey => {
+      const side: Side = seatKey === 'third' ? 'green' : seatKey;
+      return {
+        seatKey,
+        name: getPlayerName(side),
+        occupied: !!players.find(p => p.side === side)?.isConnected || reconnectingSides[side],
+        bot: !!seatBots[seatKey],
+        isMe: side === mySide,
+        reserved: reservedSeats.includes(seatKey),
+        inviteCode: reservedSeats.includes(seatKey) ? inviteCodes[seatKey] : undefined
+      };
+    });
+  const canRequestTakeback = isSeated && !takeback && !gameState.gameOver && !opening &&
+    gameState.moves.some(move => move.player === mySide);
+
+  const sendChat = (text: string) => {
+    if (!socket || !roomId) return;
+    socket.emit('send_chat', { roomId, text });
+  };
+
+  const chooseOpening = (choice: OpeningState['choices'][number]) => {
+    if (!socket || !roomId) return;
+    socket.emit('choose_opening', { roomId, choice });
+  };
+
+  const requestTakeback = () => {
+    if (!socket || !roomId) return;
+    socket.emit('request_takeback', { roomId });
+  };
+
+  const respondTakeback = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respond_takeback', { roomId, accept });
+  };
+
+  // 上传棋谱：服务器据此新建房间，随后跳转过去
+  const importRecord = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setRecordError('');
+    try {
+      const response = await fetch(`${SERVER_URL}/api/import-game`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ record: await file.text(), playerToken: getPlayerToken() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import game');
+      }
+      if (data.playerToken) savePlayerToken(data.playerToken);
+      navigate(`/room/${data.roomId}`);
+    } catch (err) {
+      setRecordError(err instanceof Error ? err.message : 'Failed to import game');
+      console.error('Error importing game:', err);
+    }
+  };
+
   const copyRoomCode = () => {
     navigator.clipboard.writeText(roomId || '');
   };
 
+  const submitPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!socket || !roomId || !passwordInput) return;
+    credentialsRef.current = { ...credentialsRef.current, password: passwordInput };
+    socket.emit('join_room', {
+      roomId,
+      playerToken: getPlayerToken(),
+      ...getProfile(),
+      ...credentialsRef.current,
+      protocolVersion: PROTOCOL_VERSION
+    });
+  };
+
+  if (passwordPrompt !== null) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-amber-100 p-4">
+        <form onSubmit={submitPassword} className="w-full max-w-xs">
+          <p className="text-lg font-bold text-amber-900 mb-2">This room needs a password</p>
+          <input
+            type="password"
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder="Room password"
+            autoFocus
+            className="w-full px-2 py-1 mb-2 text-sm border border-amber-300 rounded-md bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          {passwordPrompt && <p className="text-sm text-red-700 mb-2">{passwordPrompt}</p>}
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={!passwordInput}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Join
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate('/')}
+              className="flex-1 px-4 py-2 bg-gray-500 text-white text-sm rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Back to Home
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  if (removedMessage) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-amber-100 p-4">
+        <p className="text-lg font-bold text-amber-900 mb-4">{removedMessage}</p>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Back to Home
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen flex flex-col overflow-y-auto bg-amber-100 lg:overflow-hidden">
       {/* Header */}
@@ -443,71 +1003,16 @@ const Room: React.FC = () => {
       <div className="flex-1 flex flex-col lg:flex-row">
         {/* Game Board */}
         <div className="flex-1 flex items-center justify-center p-2 sm:p-4">
-          <div className="bg-amber-200 rounded-lg shadow-lg p-2 sm:p-6 border-2 border-amber-300">
-            {/* Traditional Gomoku Board with Lines */}
-            <div className="relative bg-amber-100 p-2 sm:p-4 rounded border border-amber-500 gomoku-board">
-              {/* Grid Lines */}
-              <div 
-                className="relative"
-                style={{
-                  width: `${boardPixelSize}px`,
-                  height: `${boardPixelSize}px`,
-                  ['--cell-size' as string]: `${pieceSize}px`
-                }}
-              >
-                {/* Horizontal Lines */}
-                {Array.from({ length: boardSize }, (_, i) => (
-                  <div
-                    key={`h-${i}`}
-                    className="absolute w-full h-px board-line"
-                    style={{ top: `${i * cellSize}px` }}
-                  />
-                ))}
-                
-                {/* Vertical Lines */}
-                {Array.from({ length: boardSize }, (_, i) => (
-                  <div
-                    key={`v-${i}`}
-                    className="absolute h-full w-px board-line"
-                    style={{ left: `${i * cellSize}px` }}
-                  />
-                ))}
-                
-                {/* Intersection Points for Pieces */}
-                {gameState.board.map((row, rowIndex) =>
-                  row.map((cell, colIndex) => (
-                    <button
-                      key={`${rowIndex}-${colIndex}`}
-                      onClick={() => handleCellClick(rowIndex, colIndex)}
-                      disabled={!isMyTurn || !allPlayersConnected || gameState.gameOver || cell !== null}
-                      className={`
-                        absolute rounded-full flex items-center justify-center
-                        transform -translate-x-1/2 -translate-y-1/2
-                        ${cell === 'X' ? 'piece-black' : ''}
-                        ${cell === 'O' ? 'piece-white' : ''}
-                        ${cell === 'T' ? 'piece-third' : ''}
-                        ${cell === null ? 'intersection-point' : ''}
-                        ${gameState.lastMove?.x === colIndex && gameState.lastMove?.y === rowIndex ? 'piece-last-move' : ''}
-                        ${!isMyTurn || !allPlayersConnected || gameState.gameOver || cell !== null ? 'cursor-not-allowed' : 'cursor-pointer'}
-                        transition-all duration-200
-                      `}
-                      style={{
-                        left: `${colIndex * cellSize}px`,
-                        top: `${rowIndex * cellSize}px`,
-                        width: `${pieceSize}px`,
-                        height: `${pieceSize}px`,
-                        minWidth: `${pieceSize}px`,
-                        minHeight: `${pieceSize}px`
-                      }}
-                      title={`${rowIndex},${colIndex} - My turn: ${isMyTurn}, All connected: ${allPlayersConnected}, Game over: ${gameState.gameOver}, Empty: ${cell === null}`}
-                    >
-                      {/* No inner div needed - the button itself is the piece */}
-                    </button>
-                  ))
-                )}
-              </div>
-            </div>
-          </div>
+          <Board
+            board={displayedBoard}
+            pendingMove={pendingMove}
+            lastMove={gameState.lastMove}
+            onCellClick={handleCellClick}
+            isCellDisabled={(row, col) => !isMyTurn || !allPlayersConnected || gameState.gameOver || !!pendingMove || gameState.board[row][col] !== EMPTY ||
+              (mySide === 'black' && forbiddenPoints.some(point => point.x === col && point.y === row))}
+            forbiddenPoints={forbiddenPoints}
+            getCellTitle={(row, col) => formatCoordinate(col, row, gameState.board.length)}
+          />
         </div>
 
         {/* Sidebar */}
@@ -529,7 +1034,7 @@ const Room: React.FC = () => {
             {!allPlayersConnected ? (
               <div className="text-center">
                 <p className="text-lg font-bold text-amber-600 mb-2">
-                  Waiting for opponent...
+                  {opponentReconnecting ? 'Opponent reconnecting…' : 'Waiting for opponent...'}
                 </p>
                 <p className="text-sm text-amber-500">
                   {mySide === 'black' ? 'You are Black' : 
@@ -553,40 +1058,200 @@ const Room: React.FC = () => {
             ) : gameState.winner ? (
               <div className="text-center">
                 <p className="text-lg font-bold text-black mb-2">
-                  {gameState.winner === 'X' ? 'Black' : gameState.winner === 'O' ? 'White' : 'Green'} Wins!
+                  {getPlayerName(gameState.winner)} Wins!
                 </p>
-                <button
-                  onClick={resetGame}
-                  className="px-4 py-2 bg-black text-black rounded-md hover:bg-gray-800 transition-colors"
-                >
-                  New Game
-                </button>
+                {resultReasonText && (
+                  <p className="text-sm text-amber-700 mb-2">{resultReasonText}</p>
+                )}
+                {ratingChangesView}
+                {newGameControls}
+                {gameId && (
+                  <Link to={`/replay/${gameId}`} className="block mt-2 text-sm">
+                    View Replay
+                  </Link>
+                )}
               </div>
-            ) : gameState.isDraw ? (
+            ) : gameState.gameOver ? (
               <div className="text-center">
-                <p className="text-lg font-bold text-gray-600 mb-2">It's a Draw!</p>
-                <button
-                  onClick={resetGame}
-                  className="px-4 py-2 bg-black text-black rounded-md hover:bg-gray-800 transition-colors"
-                >
-                  New Game
-                </button>
+                <p className="text-lg font-bold text-gray-600 mb-2">{gameState.isDraw ? "It's a Draw!" : 'Game Over'}</p>
+                {resultReasonText && (
+                  <p className="text-sm text-amber-700 mb-2">{resultReasonText}</p>
+                )}
+                {ratingChangesView}
+                {newGameControls}
+                {gameId && (
+                  <Link to={`/replay/${gameId}`} className="block mt-2 text-sm">
+                    View Replay
+                  </Link>
+                )}
+              </div>
+            ) : opening ? (
+              <div>
+                <p className="text-sm text-amber-700 mb-2">Opening ({OPENING_LABELS[opening.rule]}):</p>
+                {opening.stonesLeft > 0 ? (
+                  <p className="text-sm text-amber-800">
+                    {opening.actor === mySide ? 'You place' : `${getPlayerName(opening.actor)} places`}{' '}
+                    {opening.stonesLeft} more {opening.stonesLeft === 1 ? 'stone' : 'stones'} (next: {gameState.currentPlayer})
+                  </p>
+                ) : opening.actor === mySide ? (
+                  <div>
+                    <p className="text-sm text-amber-800 mb-1">Choose how to continue:</p>
+                    <div className="flex space-x-2">
+                      {opening.choices.map(choice => (
+                        <button
+                          key={choice}
+                          onClick={() => chooseOpening(choice)}
+                          className="flex-1 px-2 py-1 bg-blue-600 text-white text-xs rounded-md hover:bg-blue-700 transition-colors"
+                        >
+                          {OPENING_CHOICE_LABELS[choice]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-amber-600">
+                    Waiting for {getPlayerName(opening.actor)} to choose…
+                  </p>
+                )}
+                {moveError && <p className="text-sm text-red-700 mt-1">{moveError}</p>}
+                {gameActionControls}
               </div>
             ) : (
               <div>
                 <p className="text-sm text-amber-700 mb-2">Current Turn:</p>
                 <p className={`text-lg font-bold ${
-                  gameState.currentPlayer === 'X' ? 'text-gray-800' : 
-                  gameState.currentPlayer === 'O' ? 'text-gray-600' : 
+                  gameState.currentPlayer === 'black' ? 'text-gray-800' : 
+                  gameState.currentPlayer === 'white' ? 'text-gray-600' : 
                   'text-green-600'
                 }`}>
-                  {gameState.currentPlayer === 'X' ? 'Black' : gameState.currentPlayer === 'O' ? 'White' : 'Green'}
+                  {SIDE_LABELS[gameState.currentPlayer]}
                 </p>
+                {stonesLeftThisTurn && !gameState.gameOver && (
+                  <p className="text-xs text-amber-600">
+                    {stonesLeftThisTurn} stone{stonesLeftThisTurn > 1 ? 's' : ''} left this turn
+                  </p>
+                )}
                 {!isMyTurn && <p className="text-sm text-amber-600 mt-1">Waiting for opponent...</p>}
+                {moveError && <p className="text-sm text-red-700 mt-1">{moveError}</p>}
+                {takeback ? (
+                  takeback.by === mySide ? (
+                    <p className="text-sm text-amber-600 mt-2">Takeback requested…</p>
+                  ) : isSeated ? (
+                    <div className="mt-2">
+                      <p className="text-sm text-amber-800 mb-1">
+                        {getPlayerName(takeback.by)} requests a takeback
+                      </p>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => respondTakeback(true)}
+                          className="flex-1 px-2 py-1 bg-green-600 text-white text-xs rounded-md hover:bg-green-700 transition-colors"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => respondTakeback(false)}
+                          className="flex-1 px-2 py-1 bg-gray-500 text-white text-xs rounded-md hover:bg-gray-600 transition-colors"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-amber-600 mt-2">Takeback requested by {getPlayerName(takeback.by)}</p>
+                  )
+                ) : canRequestTakeback && (
+                  <button
+                    onClick={requestTakeback}
+                    className="mt-2 px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors"
+                  >
+                    Request Takeback
+                  </button>
+                )}
+                {gameActionControls}
               </div>
             )}
           </div>
 
+          {/* Match Series */}
+          {series && (
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">
+                Match · Best of {series.bestOf}
+              </h3>
+              {series.finished && (
+                <p className="text-sm font-bold text-amber-900 mb-2">
+                  {series.winner
+                    ? `${series.standings.find(entry => entry.playerId === series.winner)?.nickname || 'A player'} wins the match!`
+                    : 'The match is tied!'}
+                </p>
+              )}
+              {series.standings.length === 0 ? (
+                <p className="text-sm text-amber-600">Game 1 of {series.bestOf}</p>
+              ) : (
+                <div className="space-y-1 text-sm text-amber-800">
+                  {series.standings.map(entry => (
+                    <div key={entry.playerId} className="flex justify-between">
+                      <span>{entry.nickname || 'Player'}{entry.playerId === myPlayerId ? ' (You)' : ''}</span>
+                      <span className="font-mono font-bold">{entry.score}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {series.games.length > 0 && (
+                <ol className="mt-2 text-xs text-amber-700 space-y-0.5">
+                  {series.games.map((game, index) => (
+                    <li key={index}>
+                      Game {index + 1}: {game.winner ? `${game.winnerName || 'Player'} won` : 'Draw'}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {!series.finished && series.gamesPlayed > 0 && (
+                <p className="mt-2 text-xs text-amber-600">
+                  {series.gamesPlayed} of up to {series.bestOf} games played · colours rotate each game
+                </p>
+              )}
+              {series.finished && (
+                <p className="mt-2 text-xs text-amber-600">Starting a new game begins a new match.</p>
+              )}
+            </div>
+          )}
+
+          {/* Clocks */}
+          {clock && (
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">Clocks</h3>
+              <GameClocks
+                clock={clock}
+                clockOffset={clockOffset}
+                stopped={gameState.gameOver}
+                mySeat={mySide === 'green' ? 'third' : mySide === 'black' || mySide === 'white' ? mySide : null}
+              />
+            </div>
+          )}
+
+          {/* Move History */}
+          <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+            <h3 className="font-semibold mb-3 text-amber-900">Moves</h3>
+            {gameState.moves.length === 0 ? (
+              <p className="text-sm text-amber-600">No moves yet</p>
+            ) : (
+              <ol className="max-h-40 overflow-y-auto grid grid-cols-3 gap-x-2 gap-y-1 text-sm text-amber-800">
+                {gameState.moves.map((move, index) => (
+                  <li key={index} className="flex items-center space-x-1">
+                    <span className="text-xs text-amber-600 w-6 text-right">{index + 1}.</span>
+                    <div className={`w-2 h-2 rounded-full ${
+                      move.player === 'black' ? 'bg-gray-800' :
+                      move.player === 'white' ? 'bg-white border border-gray-300' :
+                      'bg-green-500'
+                    }`}></div>
+                    <span className="font-mono">{formatCoordinate(move.x, move.y, gameState.settings.boardSize)}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
           {/* Players */}
           <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
             <h3 className="font-semibold mb-3 text-amber-900">Players</h3>
@@ -599,30 +1264,42 @@ const Room: React.FC = () => {
                 <>
                   {/* Black Player */}
                   <div className={`flex items-center justify-between p-2 rounded ${
-                    gameState.currentPlayer === 'X' && !gameState.gameOver ? 'bg-blue-100 border border-blue-200' : 'bg-amber-50'
+                    gameState.currentPlayer === 'black' && !gameState.gameOver ? 'bg-blue-100 border border-blue-200' : 'bg-amber-50'
                   }`}>
                     <div className="flex items-center space-x-2">
                       <div className="w-3 h-3 rounded-full bg-gray-800"></div>
+                      <Avatar name={getPlayerName('black')} color={getPlayerColor('black')} />
                       <span className="text-sm font-medium text-amber-900">
-                        {players.find(p => p.symbol === 'X')?.name || 'Black Player'}
+                        {getPlayerLabel('black')}
                       </span>
-                      <div className={`w-2 h-2 rounded-full ${players.find(p => p.symbol === 'X')?.isConnected ? 'bg-green-500' : 'bg-gray-300'}`} 
-                           title={players.find(p => p.symbol === 'X')?.isConnected ? 'Connected' : 'Not connected'}></div>
+                      {getSeatRating('black') !== null && (
+                        <span className="text-xs text-amber-600">{getSeatRating('black')}</span>
+                      )}
+                      {botBadge('black')}
+                      {captureCount('black')}
+                      <div className={`w-2 h-2 rounded-full ${getConnectionDot('black', players.find(p => p.side === 'black')?.isConnected).className}`} 
+                           title={getConnectionDot('black', players.find(p => p.side === 'black')?.isConnected).title}></div>
                     </div>
                     <span className="text-sm font-bold text-gray-800">X</span>
                   </div>
 
                   {/* White Player */}
                   <div className={`flex items-center justify-between p-2 rounded ${
-                    gameState.currentPlayer === 'O' && !gameState.gameOver ? 'bg-blue-100 border border-blue-200' : 'bg-amber-50'
+                    gameState.currentPlayer === 'white' && !gameState.gameOver ? 'bg-blue-100 border border-blue-200' : 'bg-amber-50'
                   }`}>
                     <div className="flex items-center space-x-2">
                       <div className="w-3 h-3 rounded-full bg-white border border-gray-300"></div>
+                      <Avatar name={getPlayerName('white')} color={getPlayerColor('white')} />
                       <span className="text-sm font-medium text-amber-900">
-                        {players.find(p => p.symbol === 'O')?.name || 'White Player'}
+                        {getPlayerLabel('white')}
                       </span>
-                      <div className={`w-2 h-2 rounded-full ${players.find(p => p.symbol === 'O')?.isConnected ? 'bg-green-500' : 'bg-gray-300'}`} 
-                           title={players.find(p => p.symbol === 'O')?.isConnected ? 'Connected' : 'Not connected'}></div>
+                      {getSeatRating('white') !== null && (
+                        <span className="text-xs text-amber-600">{getSeatRating('white')}</span>
+                      )}
+                      {botBadge('white')}
+                      {captureCount('white')}
+                      <div className={`w-2 h-2 rounded-full ${getConnectionDot('white', players.find(p => p.side === 'white')?.isConnected).className}`} 
+                           title={getConnectionDot('white', players.find(p => p.side === 'white')?.isConnected).title}></div>
                     </div>
                     <span className="text-sm font-bold text-gray-600">O</span>
                   </div>
@@ -630,15 +1307,20 @@ const Room: React.FC = () => {
                   {/* Green Player (only show when 3 players) */}
                   {gameState.settings.playerCount === 3 && (
                     <div className={`flex items-center justify-between p-2 rounded ${
-                      gameState.currentPlayer === 'T' && !gameState.gameOver ? 'bg-blue-100 border border-blue-200' : 'bg-amber-50'
+                      gameState.currentPlayer === 'green' && !gameState.gameOver ? 'bg-blue-100 border border-blue-200' : 'bg-amber-50'
                     }`}>
                       <div className="flex items-center space-x-2">
                         <div className="w-3 h-3 rounded-full bg-green-500"></div>
+                        <Avatar name={getPlayerName('green')} color={getPlayerColor('green')} />
                         <span className="text-sm font-medium text-amber-900">
-                          {players.find(p => p.symbol === 'T')?.name || 'Green Player'}
+                          {getPlayerLabel('green')}
                         </span>
-                        <div className={`w-2 h-2 rounded-full ${players.find(p => p.symbol === 'T')?.isConnected ? 'bg-green-500' : 'bg-gray-300'}`} 
-                             title={players.find(p => p.symbol === 'T')?.isConnected ? 'Connected' : 'Not connected'}></div>
+                        {getSeatRating('green') !== null && (
+                          <span className="text-xs text-amber-600">{getSeatRating('green')}</span>
+                        )}
+                        {botBadge('green')}
+                        <div className={`w-2 h-2 rounded-full ${getConnectionDot('green', players.find(p => p.side === 'green')?.isConnected).className}`} 
+                             title={getConnectionDot('green', players.find(p => p.side === 'green')?.isConnected).title}></div>
                       </div>
                       <span className="text-sm font-bold text-green-600">T</span>
                     </div>
@@ -646,16 +1328,110 @@ const Room: React.FC = () => {
                 </>
               )}
             </div>
+            {spectators.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs font-medium text-amber-700 mb-1">Spectators ({spectators.length})</p>
+                <div className="flex flex-wrap gap-2">
+                  {spectators.map(spectator => (
+                    <div key={spectator.id} className="flex items-center space-x-1 text-xs text-amber-800">
+                      <Avatar name={spectator.nickname || 'Spectator'} color={spectator.color} />
+                      <span>{spectator.nickname || 'Anonymous'}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Host Controls */}
+          {isHost && (
+            <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+              <h3 className="font-semibold mb-3 text-amber-900">Host Controls</h3>
+              <HostPanel
+                settings={gameState.settings}
+                locked={locked}
+                hasPassword={hasPassword}
+                inviteBaseUrl={`${window.location.origin}/room/${roomId}`}
+                gameInProgress={gameState.moves.length > 0 && !gameState.gameOver}
+                seats={hostSeats}
+                spectators={spectators.map(spectator => ({ id: spectator.id, name: spectator.nickname || 'Anonymous' }))}
+                error={hostError}
+                onKick={(target: KickTarget, ban) => emitHostAction('kick', { target, ban })}
+                onLock={(value) => emitHostAction('lock_room', { locked: value })}
+                onSwap={(a, b) => emitHostAction('swap_seats', { seats: [a, b] })}
+                onPromote={(socketId, seatKey) => emitHostAction('promote_spectator', { socketId, seatKey })}
+                onUpdateSettings={(changes) => emitHostAction('update_settings', { settings: changes })}
+                onCreateInvite={(seatKey) => emitHostAction('create_invite', { seatKey })}
+                onRevokeInvite={(seatKey) => emitHostAction('revoke_invite', { seatKey })}
+                onSetPassword={(password) => emitHostAction('set_password', { password })}
+                onRestart={resetGame}
+              />
+            </div>
+          )}
+
+          {/* Chat */}
+          <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
+            <h3 className="font-semibold mb-3 text-amber-900">Chat</h3>
+            <ChatPanel
+              messages={chatMessages}
+              onSend={sendChat}
+              hideSpectatorChat={!!gameState.settings.hideSpectatorChat}
+              isSpectator={mySide === 'spectator'}
+            />
           </div>
 
           {/* Game Info */}
           <div className="bg-amber-100 rounded-lg p-4 border border-amber-300">
             <h3 className="font-semibold mb-3 text-amber-900">Game Info</h3>
             <div className="space-y-2 text-sm text-amber-700">
+              <p>Variant: {getVariantLabel(gameState.settings.variant)}</p>
               <p>Board Size: {gameState.settings.boardSize}×{gameState.settings.boardSize}</p>
               <p>Win Condition: {gameState.settings.winCondition} in a row</p>
+              <p>Mode: {gameState.settings.rated ? 'Rated' : 'Casual'}</p>
+              {(gameState.settings.bestOf || 1) > 1 && (
+                <p>Match: Best of {gameState.settings.bestOf}</p>
+              )}
+              <p>Rules: {RULE_SET_LABELS[gameState.settings.ruleSet || 'freestyle']}</p>
+              {gameState.settings.opening && gameState.settings.opening !== 'none' && (
+                <p>Opening: {OPENING_LABELS[gameState.settings.opening]}</p>
+              )}
+              {gameState.settings.computer && (
+                gameState.settings.computer.engine
+                  ? <p>Engine: {gameState.settings.computer.engineName || gameState.settings.computer.engine}</p>
+                  : <p>Computer: {gameState.settings.computer.level}</p>
+              )}
               <p>Room Code: {roomId}</p>
             </div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <a
+                href={`${SERVER_URL}/api/rooms/${roomId}/record?format=coordinates`}
+                className="px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors"
+              >
+                Download .txt
+              </a>
+              <a
+                href={`${SERVER_URL}/api/rooms/${roomId}/record?format=psq`}
+                className="px-2 py-1 bg-amber-500 text-white text-xs rounded-md hover:bg-amber-600 transition-colors"
+              >
+                Download .psq
+              </a>
+              <button
+                onClick={() => recordInputRef.current?.click()}
+                className="px-2 py-1 bg-blue-600 text-white text-xs rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Load Game
+              </button>
+              <input
+                ref={recordInputRef}
+                type="file"
+                accept=".txt,.psq"
+                onChange={importRecord}
+                className="hidden"
+              />
+            </div>
+            {recordError && (
+              <p className="mt-2 text-xs text-red-700">{recordError}</p>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import { io } from 'socket.io-client';
+import { SERVER_URL, CONFIG } from '../config';
+import { getPlayerToken } from '../identity';
+import { describeResultReason } from '../results';
+import { TIME_CONTROLS } from '../timeControls';
+import type { TournamentMatch, TournamentState } from '../types';
+
+// 对局结果的一行说明，如 "Alice won · Bob ran out of time"
+const describeMatchResult = (match: TournamentMatch) => {
+  const { result } = match;
+  if (!result) return null;
+  if (match.bye) return `${match.black} advances (bye)`;
+  if (result.draw) return describeResultReason(result.reason, null) || 'Draw';
+  const loser = result.winner === match.black ? match.white : match.black;
+  const detail = describeResultReason(result.reason, loser);
+  return detail ? `${result.winner} won · ${detail}` : `${result.winner} won`;
+};
+
+// 锦标赛页面：积分表与各轮对阵，赛况由服务器实时推送；组织者另外看到各座位的邀请链接
+const Tournament: React.FC = () => {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const [tournament, setTournament] = useState<TournamentState | null>(null);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!tournamentId) return;
+    const socket = io(SERVER_URL, CONFIG.SOCKET_OPTIONS);
+
+    // 重连后重新订阅，补上断线期间的变化
+    socket.on('connect', () => {
+      socket.emit('tournament_subscribe', { tournamentId, playerToken: getPlayerToken() });
+    });
+    socket.on('tournament_state', (data: TournamentState) => {
+      if (data.id !== tournamentId) return;
+      setTournament(data);
+      setError('');
+    });
+    socket.on('tournament_error', (data: { error: string }) => {
+      setError(data.error);
+    });
+
+    return () => {
+      socket.emit('tournament_unsubscribe', { tournamentId });
+      socket.disconnect();
+    };
+  }, [tournamentId]);
+
+  const copyInvite = async (roomId: string, code: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/room/${roomId}?invite=${code}`);
+      setCopied(code);
+      setTimeout(() => setCopied(current => (current === code ? null : current)), 2000);
+    } catch (err) {
+      console.error('Failed to copy invite link:', err);
+    }
+  };
+
+  const settings = tournament?.settings;
+  const timeControlLabel = settings
+    ? TIME_CONTROLS.find(option => JSON.stringify(option.value) === JSON.stringify(settings.timeControl))?.label
+    : null;
+
+  const renderInvite = (match: TournamentMatch, side: 'black' | 'white') => {
+    const code = match.invites?.[side];
+    const { roomId } = match;
+    if (!code || !roomId) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => copyInvite(roomId, code)}
+        className="text-xs text-blue-700 hover:underline"
+      >
+        {copied === code ? 'Copied!' : `Copy ${side} invite`}
+      </button>
+    );
+  };
+
+  return (
+    <div className="h-screen flex flex-col overflow-y-auto bg-amber-100">
+      {/* Header */}
+      <div className="bg-amber-200 shadow-sm border-b border-amber-300 px-3 py-2 sm:px-4 sm:py-3">
+        <div className="flex items-center space-x-2 sm:space-x-4">
+          <button
+            onClick={() => navigate('/')}
+            className="text-sm text-amber-800 hover:text-amber-900 transition-colors"
+          >
+            ← Back
+          </button>
+          <h1 className="text-sm font-semibold text-amber-900 sm:text-xl">
+            {tournament ? tournament.name : 'Tournament'}
+          </h1>
+        </div>
+      </div>
+
+      <div className="w-full max-w-2xl mx-auto p-3 sm:p-4 space-y-3">
+        {error ? (
+          <div className="bg-amber-50 rounded-lg p-4 border border-amber-300">
+            <p className="text-sm font-bold text-amber-700">{error}</p>
+          </div>
+        ) : !tournament || !settings ? (
+          <div className="bg-amber-50 rounded-lg p-4 border border-amber-300">
+            <p className="text-sm text-amber-600">Loading tournament...</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-amber-50 rounded-lg p-4 border border-amber-300 text-sm text-amber-800 space-y-1">
+              <p className="font-semibold">
+                {tournament.format === 'knockout' ? 'Knockout' : 'Round robin'} ·{' '}
+                {tournament.status === 'finished'
+                  ? tournament.winner ? `🏆 ${tournament.winner} wins` : 'Finished — shared first place'
+                  : `Round ${tournament.currentRound + 1} in progress`}
+              </p>
+              <p className="text-xs text-amber-600">
+                {settings.boardSize}×{settings.boardSize} · {settings.winCondition} in a row · {settings.ruleSet}
+                {settings.opening !== 'none' && ` · ${settings.opening} opening`}
+                {timeControlLabel && timeControlLabel !== 'None' && ` · ${timeControlLabel}`}
+              </p>
+              {tournament.isOrganizer && tournament.status === 'running' && (
+                <p className="text-xs text-amber-600">
+                  You are the organizer. Send each player the invite link for their seat.
+                </p>
+              )}
+            </div>
+
+            {/* Standings */}
+            <div className="bg-amber-50 rounded-lg p-4 border border-amber-300">
+              <h2 className="text-sm font-semibold text-amber-900 mb-2">Standings</h2>
+              <table className="w-full text-sm text-amber-900">
+                <thead>
+                  <tr className="text-left text-xs text-amber-600 border-b border-amber-300">
+                    <th className="py-1 w-10">#</th>
+                    <th className="py-1">Player</th>
+                    <th className="py-1 text-right">Pts</th>
+                    <th className="py-1 text-right">W / D / L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tournament.standings.map((row, index) => (
+                    <tr
+                      key={row.name}
+                      className={`border-b border-amber-200 ${row.eliminated ? 'text-amber-500' : ''} ${row.name === tournament.winner ? 'font-semibold' : ''}`}
+                    >
+                      <td className="py-1 text-amber-600">{index + 1}</td>
+                      <td className="py-1">
+                        {row.name}
+                        {row.eliminated && <span className="ml-2 text-xs">Out</span>}
+                      </td>
+                      <td className="py-1 text-right font-mono">{row.points}</td>
+                      <td className="py-1 text-right">{row.wins} / {row.draws} / {row.losses}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Rounds */}
+            {tournament.rounds.map(round => (
+              <div key={round.number} className="bg-amber-50 rounded-lg p-4 border border-amber-300">
+                <h2 className="text-sm font-semibold text-amber-900 mb-2">Round {round.number}</h2>
+                <div className="space-y-2">
+                  {round.matches.map(match => (
+                    <div key={match.id} className="border border-amber-200 rounded p-2 text-sm text-amber-900">
+                      <div className="flex items-center justify-between">
+                        <span>
+                          ⚫ {match.black}
+                          {!match.bye && <> <span className="text-amber-500">vs</span> ⚪ {match.white}</>}
+                        </span>
+                        <span className="space-x-3 text-xs">
+                          {match.result?.gameId && (
+                            <Link to={`/replay/${match.result.gameId}`} className="text-blue-700 hover:underline">Replay</Link>
+                          )}
+                          {!match.result && match.roomId && (
+                            <Link to={`/room/${match.roomId}`} className="text-blue-700 hover:underline">Watch</Link>
+                          )}
+                        </span>
+                      </div>
+                      <p className="text-xs text-amber-600 mt-1">
+                        {match.result ? describeMatchResult(match) : match.roomId ? 'In progress' : 'Waiting'}
+                      </p>
+                      {match.invites && (
+                        <div className="mt-1 space-x-3">
+                          {renderInvite(match, 'black')}
+                          {renderInvite(match, 'white')}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Tournament;
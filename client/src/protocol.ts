@@ -0,0 +1,154 @@
+// 房间 Socket 的事件约定：服务器下发与客户端发送的每个事件及其负载
+// 协议版本与状态序号的判断与服务器共用（shared/protocol）
+import type { Socket } from 'socket.io-client';
+import type { KickTarget } from './components/HostPanel';
+import type { Board, Point } from './rules';
+import type { ChatMessage, ClockState, Move, RoomSettings, SeatKey, SeriesState, Side } from './types';
+
+export { PROTOCOL_VERSION, checkSequence } from '../../shared/protocol/index.js';
+export type { SequenceStatus } from '../../shared/protocol/index.js';
+
+// 服务器广播的昵称与头像颜色，未填写的字段为 null
+export interface PlayerProfile {
+  nickname: string | null;
+  color: string | null;
+}
+
+// 开局阶段：actor 为行动方，stonesLeft 为本阶段还需摆的棋子数，choices 为可做的选择
+export interface OpeningState {
+  rule: 'swap' | 'swap2';
+  phase: string;
+  actor: Side;
+  stonesLeft: number;
+  choices: ('black' | 'white' | 'place2')[];
+}
+
+// 计分对局结束时各方的等级分变化
+export type RatingChanges = Partial<Record<Side, { playerId: string; before: number; after: number }>>;
+
+// 一局的结果：认输、超时、弃局时 loser 为输的一方；存档后带 gameId
+export interface RoomResult {
+  winner: Side | null;
+  draw?: boolean;
+  reason: string;
+  loser?: Side;
+  gameId?: string | null;
+  ratings?: RatingChanges;
+}
+
+// 按座位的取值；两人房间中 third 为 undefined
+type SeatValues<T> = { black: T; white: T; third?: T };
+
+// 房间状态：座位、观战者、计时、房主与各种待回应的请求
+export interface RoomStatePayload {
+  players: SeatValues<boolean>;
+  profiles: SeatValues<PlayerProfile | null>;
+  spectators: ({ id: string } & PlayerProfile)[];
+  ratings: Partial<Record<SeatKey, number | null>> | null;
+  reconnecting: SeatValues<boolean>;
+  forbiddenPoints: (Point & { reason: string })[];
+  opening: OpeningState | null;
+  // 内置电脑为难度，外部引擎为 'engine'，外部机器人为 'external'，真人为 null
+  bots: SeatValues<string | null>;
+  clock: ClockState | null;
+  host: { playerId: string; side: Side | 'spectator' | null } | null;
+  locked: boolean;
+  hasPassword: boolean;
+  reservedSeats: SeatKey[];
+  series: SeriesState | null;
+  drawOffer: { by: Side; pending: Side[] } | null;
+  resigned: Side[];
+  resetRequest: { by: Side; pending: Side[] } | null;
+  captures: { black: number; white: number } | null;
+  // 数字表示的下一子颜色：1 黑，2 白，3 绿
+  turn: number;
+  settings: RoomSettings;
+}
+
+// 完整快照（joined 与 state_snapshot）：seq 为当前状态序号，之后的广播从 seq + 1 起
+export interface RoomSnapshot {
+  protocolVersion: number;
+  seq: number;
+  roomId: string;
+  turn: number;
+  board: Board;
+  moves: Move[];
+  result: RoomResult | null;
+  takeback: { by: Side } | null;
+  settings: RoomSettings;
+  room: RoomStatePayload;
+}
+
+export interface JoinedPayload extends RoomSnapshot {
+  side: Side | 'spectator';
+  playerToken: string;
+  playerId: string;
+  chat: ChatMessage[];
+}
+
+// 改变对局状态的广播都带状态序号
+type Sequenced<T> = T & { seq: number };
+
+export interface ServerToClientEvents {
+  joined: (data: JoinedPayload) => void;
+  state_snapshot: (data: RoomSnapshot) => void;
+  room_state: (data: Sequenced<RoomStatePayload>) => void;
+  piece_placed: (data: Sequenced<{ x: number; y: number; player: Side; captured: Point[] }>) => void;
+  turn_changed: (data: Sequenced<{ turn: Side; clock: ClockState | null }>) => void;
+  game_over: (data: Sequenced<RoomResult>) => void;
+  reset_done: (data: Sequenced<{ board: Board; turn: 'black' }>) => void;
+  takeback_requested: (data: { by: Side }) => void;
+  // 同意时带回退后的棋盘、着法与轮次
+  takeback_resolved: (data: Sequenced<{ accepted: boolean; by: Side | null; board?: Board; moves?: Move[]; turn?: Side }>) => void;
+  move_rejected: (data: { x: number; y: number; reason: string }) => void;
+  draw_offered: (data: { by: Side }) => void;
+  draw_resolved: (data: { accepted: boolean; by: Side | null }) => void;
+  reset_requested: (data: { by: Side }) => void;
+  reset_resolved: (data: { accepted: boolean; by: Side | null }) => void;
+  player_resigned: (data: { side: Side; reason: string }) => void;
+  series_over: (data: SeriesState) => void;
+  side_changed: (data: { side: Side }) => void;
+  chat_message: (message: ChatMessage) => void;
+  clock_sync: (data: { clientTime: number; serverTime: number }) => void;
+  invite_created: (data: { seatKey: SeatKey; code: string }) => void;
+  host_error: (data: { error: string }) => void;
+  kicked: (data: { roomId: string; banned: boolean }) => void;
+  join_error: (data: { roomId: string; error: string; code?: string }) => void;
+  request_error: (data: { event: string; code: string; error: string }) => void;
+}
+
+type RoomRequest<T = object> = (data: { roomId: string } & T) => void;
+
+export interface ClientToServerEvents {
+  join_room: RoomRequest<{
+    playerToken: string | null;
+    nickname?: string | null;
+    color?: string | null;
+    password?: string;
+    invite?: string;
+    protocolVersion: number;
+  }>;
+  // 请求完整快照，服务器以 state_snapshot 回复
+  get_room_state: RoomRequest;
+  clock_sync: (data: { clientTime: number }) => void;
+  send_chat: RoomRequest<{ text: string }>;
+  place_piece: RoomRequest<Point>;
+  reset_game: RoomRequest;
+  respond_reset: RoomRequest<{ accept: boolean }>;
+  resign: RoomRequest;
+  offer_draw: RoomRequest;
+  respond_draw: RoomRequest<{ accept: boolean }>;
+  choose_opening: RoomRequest<{ choice: 'black' | 'white' | 'place2' }>;
+  request_takeback: RoomRequest;
+  respond_takeback: RoomRequest<{ accept: boolean }>;
+  kick: RoomRequest<{ target: KickTarget; ban: boolean }>;
+  lock_room: RoomRequest<{ locked: boolean }>;
+  swap_seats: RoomRequest<{ seats: [SeatKey, SeatKey] }>;
+  promote_spectator: RoomRequest<{ socketId: string; seatKey: SeatKey }>;
+  update_settings: RoomRequest<{ settings: Partial<RoomSettings> }>;
+  create_invite: RoomRequest<{ seatKey: SeatKey }>;
+  revoke_invite: RoomRequest<{ seatKey: SeatKey }>;
+  set_password: RoomRequest<{ password: string | null }>;
+}
+
+export type RoomSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
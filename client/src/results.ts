@@ -0,0 +1,11 @@
+// 对局结束原因的说明，五连获胜不另加说明；loserName 为超时、认输或弃局的一方
+export const describeResultReason = (reason: string | null | undefined, loserName: string | null) => {
+  if (reason === 'timeout') return `${loserName || 'A player'} ran out of time`;
+  if (reason === 'resignation') return `${loserName || 'A player'} resigned`;
+  if (reason === 'abandonment') return `${loserName || 'A player'} abandoned the game`;
+  if (reason === 'agreed-draw') return 'Draw agreed';
+  if (reason === 'board-full') return 'The board is full';
+  if (reason === 'captures') return 'Won by five captures';
+  if (reason === 'engine-error') return `${loserName || 'The engine'} failed to make a legal move`;
+  return null;
+};
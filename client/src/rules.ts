@@ -0,0 +1,6 @@
+// 与服务器共用的对局规则（shared/rules），客户端据此预先校验落子并乐观地显示
+export * from '../../shared/rules/index.js';
+export type { Board, Cell, Captures, Move, Player, Point, Side } from '../../shared/rules/board.js';
+export type { ForbiddenReason, RuleSet } from '../../shared/rules/rules.js';
+export type { Variant } from '../../shared/rules/variants.js';
+export type { GameResult, GameState, MoveError, RuleSettings } from '../../shared/rules/game.js';
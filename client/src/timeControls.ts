@@ -0,0 +1,11 @@
+import type { TimeControl } from './types';
+
+// 计时预设：不计时、每步限时、总时间 + 每步加秒
+export const TIME_CONTROLS: { label: string; value: TimeControl }[] = [
+  { label: 'None', value: { type: 'none' } },
+  { label: '30s / move', value: { type: 'move', moveSeconds: 30 } },
+  { label: '60s / move', value: { type: 'move', moveSeconds: 60 } },
+  { label: '5 min', value: { type: 'total', baseSeconds: 300, incrementSeconds: 0 } },
+  { label: '10 min + 5s', value: { type: 'total', baseSeconds: 600, incrementSeconds: 5 } },
+  { label: '20 min + 10s', value: { type: 'total', baseSeconds: 1200, incrementSeconds: 10 } }
+];
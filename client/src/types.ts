@@ -0,0 +1,110 @@
+import type { Side, Variant } from './rules';
+
+// 阵营、着法与玩法变体的类型随共用规则定义
+export type { Move, Side, Variant } from './rules';
+
+// 服务器下发的计时状态：remaining 按座位（third 即绿方）记剩余毫秒，截至 serverTime
+export type TimeControl =
+  | { type: 'none' }
+  | { type: 'move'; moveSeconds: number }
+  | { type: 'total'; baseSeconds: number; incrementSeconds: number };
+
+export type SeatKey = 'black' | 'white' | 'third';
+
+// 房间设置（服务器在 joined / room_state 中下发）
+export interface RoomSettings {
+  playerCount: 2 | 3;
+  winCondition: 4 | 5 | 6;
+  boardSize: 15 | 19;
+  ruleSet?: 'freestyle' | 'standard' | 'renju';
+  opening?: 'none' | 'swap' | 'swap2';
+  timeControl?: TimeControl;
+  hideSpectatorChat?: boolean;
+  rated?: boolean;
+  // 外部引擎对手：engine 为引擎 id，level 为 null
+  computer?: { level: 'easy' | 'medium' | 'hard' | null; count: number; engine?: string | null; engineName?: string } | null;
+  isPublic?: boolean;
+  // 系列赛局数，1 为单局
+  bestOf?: number;
+  variant?: Variant;
+}
+
+// 系列赛进程：standings 按比分从高到低，winner 为胜者的玩家 id（并列时为 null）
+export interface SeriesState {
+  bestOf: number;
+  gamesPlayed: number;
+  standings: { playerId: string; nickname: string | null; score: number }[];
+  games: { winner: string | null; winnerName: string | null; reason: string | null }[];
+  finished: boolean;
+  winner: string | null;
+}
+
+export interface ClockState {
+  timeControl: TimeControl;
+  remaining: Partial<Record<SeatKey, number>>;
+  running: SeatKey | null;
+  serverTime: number;
+}
+
+// 聊天消息：棋手的消息在 players 频道，观战者的在 spectators 频道
+export interface ChatMessage {
+  id: string;
+  side: Side | 'spectator';
+  nickname: string;
+  text: string;
+  channel: 'players' | 'spectators';
+  timestamp: number;
+}
+
+// 锦标赛赛况（GET /api/tournaments/:id 与 tournament_state）；invites 只发给组织者
+export type TournamentFormat = 'round-robin' | 'knockout';
+
+export interface TournamentMatch {
+  id: string;
+  black: string;
+  white: string | null;
+  roomId: string | null;
+  bye: boolean;
+  result: { winner: string | null; draw: boolean; reason: string; gameId: string | null } | null;
+  invites?: { black: string; white: string };
+}
+
+export interface TournamentState {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  settings: { boardSize: number; winCondition: number; ruleSet: string; opening: string; timeControl: TimeControl };
+  status: 'running' | 'finished';
+  winner: string | null;
+  currentRound: number;
+  standings: { name: string; points: number; wins: number; draws: number; losses: number; played: number; eliminated: boolean }[];
+  rounds: { number: number; matches: TournamentMatch[] }[];
+  isOrganizer: boolean;
+  createdAt: string;
+}
+
+// 服务器端配置的外部引擎（GET /api/engines）
+export interface EngineInfo {
+  id: string;
+  name: string;
+}
+
+// 大厅中的公开房间
+export interface LobbyRoom {
+  roomId: string;
+  settings: {
+    playerCount: 2 | 3;
+    winCondition: number;
+    boardSize: number;
+    ruleSet: string;
+    opening: string;
+    timeControl: TimeControl;
+    rated: boolean;
+    variant: Variant;
+  };
+  players: Partial<Record<SeatKey, { nickname: string | null; bot: boolean } | null>>;
+  freeSeats: number;
+  hasPassword: boolean;
+  moveCount: number;
+  spectators: number;
+}
@@ -0,0 +1,11 @@
+import type { Variant } from './types';
+
+// 玩法变体：六子棋与 Pente 只限两人、不用开局规则，胜利条件固定
+export const VARIANTS: { value: Variant; label: string; description: string; winCondition: 4 | 5 | 6 | null }[] = [
+  { value: 'gomoku', label: 'Gomoku', description: 'One stone per turn.', winCondition: null },
+  { value: 'connect6', label: 'Connect6', description: 'Black opens with one stone, then each side places two per turn. Six in a row wins.', winCondition: 6 },
+  { value: 'pente', label: 'Pente', description: 'Flank exactly two enemy stones to capture them. Five in a row or five captures wins.', winCondition: 5 }
+];
+
+export const getVariantLabel = (variant: Variant | undefined) =>
+  VARIANTS.find(option => option.value === (variant || 'gomoku'))!.label;
@@ -5,4 +5,10 @@ import tailwindcss from '@tailwindcss/vite'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  // 允许开发服务器读取仓库根目录下的共用规则 shared/rules
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
 })
@@ -0,0 +1,42 @@
+// server/access.js
+// 房间访问控制：可选的房间密码（只保存加盐哈希）与房主按座位签发的一次性邀请码
+const { randomBytes, scryptSync, timingSafeEqual } = require("crypto");
+const { customAlphabet } = require("nanoid");
+
+const PASSWORD_MAX_LENGTH = 64;
+
+const generateInviteCode = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 12);
+
+// 未设密码时传 null / 空串；合法时返回 null
+function getPasswordError(password) {
+  if (password === undefined || password === null || password === "") return null;
+  if (typeof password !== "string") return "Password must be text";
+  if (password.length > PASSWORD_MAX_LENGTH) return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  return null;
+}
+
+function hashPassword(password) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(password, salt, 32).toString("hex");
+  return { salt, hash };
+}
+
+function checkPassword(record, password) {
+  if (typeof password !== "string" || !password) return false;
+  const expected = Buffer.from(record.hash, "hex");
+  const actual = scryptSync(password, record.salt, 32);
+  return timingSafeEqual(expected, actual);
+}
+
+// 邀请只对应一个座位，使用一次即作废
+function createInvite(seatKey) {
+  return { code: generateInviteCode(), seatKey, createdAt: Date.now() };
+}
+
+module.exports = {
+  PASSWORD_MAX_LENGTH,
+  getPasswordError,
+  hashPassword,
+  checkPassword,
+  createInvite
+};
@@ -0,0 +1,235 @@
+// server/ai.js
+// 电脑对手：按难度为当前一方挑选落子点
+// easy   - 在启发式评分前几名中随机挑选，偶尔会漏防
+// medium - 取启发式评分最高的点（进攻与防守兼顾）
+// hard   - 在启发式排序后的候选点上做 alpha-beta 搜索
+const { inBounds, checkWin, getOppositeTurn, overlineWins, getMoveViolation } = require("../shared/rules/index.js");
+
+const BOT_LEVELS = ["easy", "medium", "hard"];
+
+// 棋形分值，"四""三"均相对 winCondition 而言（四 = 差一子成连）
+const SCORES = {
+  WIN: 10000000,
+  OPEN_FOUR: 100000, // 活四：两端皆空，无法再防
+  FOUR: 10000,       // 冲四：一端被堵，必须应对
+  OPEN_THREE: 5000,  // 活三
+  THREE: 500,
+  OPEN_TWO: 200,
+  TWO: 50,
+  ONE: 10
+};
+
+// 同时形成两个以上冲四/活三（四三、双三）时的额外加分
+const DOUBLE_THREAT_BONUS = 50000;
+
+// 搜索参数：每层只展开评分最高的若干候选点
+const SEARCH_WIDTH = 8;
+const SEARCH_DEPTH = { 2: 4, 3: 3 };
+
+const DIRECTIONS = [
+  [1, 0],
+  [0, 1],
+  [1, 1],
+  [1, -1],
+];
+
+// allowOverline 为 false 时长连不算胜，也无法再发展
+function shapeScore(count, openEnds, winCondition, allowOverline) {
+  if (count === winCondition) return SCORES.WIN;
+  if (count > winCondition) return allowOverline ? SCORES.WIN : 0;
+  if (openEnds === 0) return 0;
+  const missing = winCondition - count;
+  if (missing === 1) return openEnds === 2 ? SCORES.OPEN_FOUR : SCORES.FOUR;
+  if (missing === 2) return openEnds === 2 ? SCORES.OPEN_THREE : SCORES.THREE;
+  if (missing === 3) return openEnds === 2 ? SCORES.OPEN_TWO : SCORES.TWO;
+  return SCORES.ONE * count;
+}
+
+// 假设 player 落在 (x, y)，沿一个方向数连子数和两端空位数
+function measureLine(board, x, y, dx, dy, player) {
+  const size = board.length;
+  let count = 1;
+  let openEnds = 0;
+  for (const sign of [1, -1]) {
+    let nx = x + dx * sign, ny = y + dy * sign;
+    while (inBounds(nx, ny, size) && board[ny][nx] === player) {
+      count++; nx += dx * sign; ny += dy * sign;
+    }
+    if (inBounds(nx, ny, size) && board[ny][nx] === 0) openEnds++;
+  }
+  return { count, openEnds };
+}
+
+// player 在 (x, y) 落子能形成的棋形价值
+function scorePoint(board, x, y, player, settings) {
+  const allowOverline = overlineWins(settings.ruleSet, player);
+  let total = 0;
+  let threats = 0;
+  for (const [dx, dy] of DIRECTIONS) {
+    const { count, openEnds } = measureLine(board, x, y, dx, dy, player);
+    const score = shapeScore(count, openEnds, settings.winCondition, allowOverline);
+    if (score >= SCORES.OPEN_THREE) threats++;
+    total += score;
+  }
+  if (threats >= 2 && total < SCORES.WIN) total += DOUBLE_THREAT_BONUS;
+  return total;
+}
+
+// 候选点：已有棋子周围两格内的空位；空棋盘时取天元
+function getCandidates(board) {
+  const size = board.length;
+  const candidates = [];
+  let hasStone = false;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (board[y][x] !== 0) {
+        hasStone = true;
+        continue;
+      }
+      let nearStone = false;
+      for (let dy = -2; dy <= 2 && !nearStone; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (inBounds(nx, ny, size) && board[ny][nx] !== 0) {
+            nearStone = true;
+            break;
+          }
+        }
+      }
+      if (nearStone) candidates.push({ x, y });
+    }
+  }
+  if (!hasStone) {
+    const center = Math.floor(size / 2);
+    return [{ x: center, y: center }];
+  }
+  return candidates;
+}
+
+function getOpponents(player, playerCount) {
+  return [1, 2, 3].slice(0, playerCount).filter((p) => p !== player);
+}
+
+// 按进攻 + 防守价值为候选点排序；进攻略优先，己方先成连即获胜
+// 禁手判定较慢，只对排序靠前的点逐个检查，凑够 limit 个合法点为止
+function rankCandidates(board, player, settings, limit = Infinity) {
+  const opponents = getOpponents(player, settings.playerCount);
+  const ranked = getCandidates(board)
+    .map(({ x, y }) => {
+      const attack = scorePoint(board, x, y, player, settings);
+      const defense = Math.max(...opponents.map((opponent) => scorePoint(board, x, y, opponent, settings)));
+      return { x, y, attack, score: attack * 1.1 + defense + Math.random() };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const legal = [];
+  for (const move of ranked) {
+    if (legal.length >= limit) break;
+    if (!getMoveViolation(board, move.x, move.y, player, settings.ruleSet)) legal.push(move);
+  }
+  return legal;
+}
+
+// 静态局面评估：己方棋形总分减去对手棋形总分
+function evaluateBoard(board, me, settings) {
+  const size = board.length;
+  const totals = [0, 0, 0, 0];
+  for (const [dx, dy] of DIRECTIONS) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const player = board[y][x];
+        if (player === 0) continue;
+        // 只从连子的起点统计一次
+        const px = x - dx, py = y - dy;
+        if (inBounds(px, py, size) && board[py][px] === player) continue;
+
+        let count = 0;
+        let nx = x, ny = y;
+        while (inBounds(nx, ny, size) && board[ny][nx] === player) {
+          count++; nx += dx; ny += dy;
+        }
+        let openEnds = 0;
+        if (inBounds(px, py, size) && board[py][px] === 0) openEnds++;
+        if (inBounds(nx, ny, size) && board[ny][nx] === 0) openEnds++;
+        totals[player] += shapeScore(count, openEnds, settings.winCondition, overlineWins(settings.ruleSet, player));
+      }
+    }
+  }
+  return totals.reduce((score, total, player) => (player === me ? score + total : score - total), 0);
+}
+
+// paranoid alpha-beta：己方取最大，其余玩家（三人局时视为同盟）取最小
+function search(board, depth, alpha, beta, turn, me, settings) {
+  const candidates = rankCandidates(board, turn, settings, SEARCH_WIDTH);
+  if (candidates.length === 0) return 0;
+
+  const maximizing = turn === me;
+  let best = maximizing ? -Infinity : Infinity;
+  for (const { x, y } of candidates) {
+    board[y][x] = turn;
+    let value;
+    if (checkWin(board, x, y, settings.winCondition, settings.ruleSet)) {
+      // 越早分出胜负分值越极端
+      value = (maximizing ? 1 : -1) * (SCORES.WIN * 10 + depth);
+    } else if (depth <= 1) {
+      value = evaluateBoard(board, me, settings);
+    } else {
+      value = search(board, depth - 1, alpha, beta, getOppositeTurn(turn, settings.playerCount), me, settings);
+    }
+    board[y][x] = 0;
+
+    if (maximizing) {
+      best = Math.max(best, value);
+      alpha = Math.max(alpha, value);
+    } else {
+      best = Math.min(best, value);
+      beta = Math.min(beta, value);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+}
+
+function searchBestMove(board, player, settings, ranked) {
+  const depth = SEARCH_DEPTH[settings.playerCount] || 3;
+  let bestMove = ranked[0];
+  let bestValue = -Infinity;
+  let alpha = -Infinity;
+  for (const move of ranked.slice(0, SEARCH_WIDTH)) {
+    board[move.y][move.x] = player;
+    const value = search(board, depth - 1, alpha, Infinity, getOppositeTurn(player, settings.playerCount), player, settings);
+    board[move.y][move.x] = 0;
+    if (value > bestValue) {
+      bestValue = value;
+      bestMove = move;
+    }
+    alpha = Math.max(alpha, value);
+  }
+  return bestMove;
+}
+
+// 为 player（1/2/3）挑选落子点，返回 { x, y }；棋盘已满时返回 null
+function chooseMove(board, { player, level, playerCount, winCondition, ruleSet = "freestyle" }) {
+  const settings = { playerCount, winCondition, ruleSet };
+  const work = board.map((row) => row.slice());
+  const ranked = rankCandidates(work, player, settings, SEARCH_WIDTH);
+  if (ranked.length === 0) return null;
+
+  // 能直接获胜时任何难度都不放过
+  const best = ranked[0];
+  if (best.attack >= SCORES.WIN) return { x: best.x, y: best.y };
+
+  let move = best;
+  if (level === "easy") {
+    const pool = ranked.slice(0, 4);
+    move = pool[Math.floor(Math.random() * pool.length)];
+  } else if (level === "hard") {
+    move = searchBestMove(work, player, settings, ranked);
+  }
+  return { x: move.x, y: move.y };
+}
+
+module.exports = {
+  BOT_LEVELS,
+  chooseMove
+};
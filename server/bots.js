@@ -0,0 +1,37 @@
+// server/bots.js
+// 外部机器人账号：队伍自己编写的程序先注册拿到令牌，再凭令牌连接 /bot 命名空间入座下棋（协议见 README）
+// 服务器只保存令牌的哈希，令牌本身仅在注册时返回一次
+const { createHash } = require("crypto");
+const { customAlphabet } = require("nanoid");
+
+const BOT_NAME_MAX_LENGTH = 20;
+
+const generateBotId = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 10);
+const generateBotToken = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", 40);
+
+function hashBotToken(token) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// 机器人名称在玩家面板中显示，不区分大小写不得重名；合法时返回 null
+function getBotNameError(name, accounts) {
+  if (typeof name !== "string" || !name.trim()) return "Bot name must not be empty";
+  const trimmed = name.trim();
+  if (trimmed.length > BOT_NAME_MAX_LENGTH) return `Bot name must be at most ${BOT_NAME_MAX_LENGTH} characters`;
+  if (accounts.some((account) => account.name.toLowerCase() === trimmed.toLowerCase())) return "That bot name is already taken";
+  return null;
+}
+
+// 返回保存用的账号 { id, name, tokenHash, createdAt } 与只给注册者的令牌
+function createBotAccount(name) {
+  const token = generateBotToken();
+  const account = { id: generateBotId(), name: name.trim(), tokenHash: hashBotToken(token), createdAt: new Date().toISOString() };
+  return { account, token };
+}
+
+module.exports = {
+  BOT_NAME_MAX_LENGTH,
+  hashBotToken,
+  getBotNameError,
+  createBotAccount
+};
@@ -0,0 +1,106 @@
+// server/clocks.js
+// 对局计时（以服务器时间为准）
+// none  - 不计时
+// move  - 每步限时 moveSeconds 秒，每步重新计时
+// total - 每方总时间 baseSeconds 秒，每走一步加 incrementSeconds 秒（Fischer 加秒）
+// 计时以座位为单位（black/white/third），开局阶段按行动方座位计时
+
+// 单项时长上限：三小时
+const MAX_SECONDS = 3 * 60 * 60;
+
+const isSeconds = (value, min) => Number.isInteger(value) && value >= min && value <= MAX_SECONDS;
+
+// 校验创建房间时的计时设置，合法时返回 null
+function getTimeControlError(timeControl) {
+  if (!timeControl || timeControl.type === "none") return null;
+  if (timeControl.type === "move") {
+    if (!isSeconds(timeControl.moveSeconds, 1)) return "Per-move limit must be a whole number of seconds";
+    return null;
+  }
+  if (timeControl.type === "total") {
+    if (!isSeconds(timeControl.baseSeconds, 1)) return "Total time must be a whole number of seconds";
+    if (!isSeconds(timeControl.incrementSeconds ?? 0, 0)) return "Increment must be a whole number of seconds";
+    return null;
+  }
+  return `Unknown time control "${timeControl.type}"`;
+}
+
+// 去掉多余字段，补全默认值；调用前应已通过 getTimeControlError
+function normalizeTimeControl(timeControl) {
+  if (!timeControl || timeControl.type === "none") return { type: "none" };
+  if (timeControl.type === "move") return { type: "move", moveSeconds: timeControl.moveSeconds };
+  return {
+    type: "total",
+    baseSeconds: timeControl.baseSeconds,
+    incrementSeconds: timeControl.incrementSeconds ?? 0
+  };
+}
+
+// remaining 为各座位剩余毫秒数；running 为正在计时的座位，startedAt 为其开始时刻
+function createClock(timeControl, seatKeys) {
+  if (timeControl.type === "none") return null;
+  const initial = (timeControl.type === "move" ? timeControl.moveSeconds : timeControl.baseSeconds) * 1000;
+  return {
+    timeControl,
+    remaining: Object.fromEntries(seatKeys.map((seatKey) => [seatKey, initial])),
+    running: null,
+    startedAt: null
+  };
+}
+
+// 开始为 seatKey 计时；每步限时时重新装满
+function startClock(clock, seatKey, now) {
+  const remaining = { ...clock.remaining };
+  if (clock.timeControl.type === "move") remaining[seatKey] = clock.timeControl.moveSeconds * 1000;
+  return { ...clock, remaining, running: seatKey, startedAt: now };
+}
+
+// 停止计时并扣除用时；increment 为 true 表示这是一步完成的着法，总时间制下加秒
+function stopClock(clock, now, { increment = true } = {}) {
+  if (!clock.running) return clock;
+  const remaining = { ...clock.remaining };
+  const left = Math.max(0, remaining[clock.running] - (now - clock.startedAt));
+  remaining[clock.running] = left;
+  if (increment && left > 0 && clock.timeControl.type === "total") {
+    remaining[clock.running] += clock.timeControl.incrementSeconds * 1000;
+  }
+  return { ...clock, remaining, running: null, startedAt: null };
+}
+
+function getTimeLeft(clock, seatKey, now) {
+  const stored = clock.remaining[seatKey];
+  if (clock.running !== seatKey) return stored;
+  return Math.max(0, stored - (now - clock.startedAt));
+}
+
+// 开局选色互换座位时，计时跟着玩家走
+function swapClockSeats(clock, a, b) {
+  const remaining = { ...clock.remaining, [a]: clock.remaining[b], [b]: clock.remaining[a] };
+  const running = clock.running === a ? b : clock.running === b ? a : clock.running;
+  return { ...clock, remaining, running };
+}
+
+// 广播给客户端的计时状态；客户端据 serverTime 与自身的时差推算走时
+function describeClock(clock, now) {
+  const remaining = {};
+  for (const seatKey of Object.keys(clock.remaining)) {
+    remaining[seatKey] = getTimeLeft(clock, seatKey, now);
+  }
+  return {
+    timeControl: clock.timeControl,
+    remaining,
+    running: clock.running,
+    serverTime: now
+  };
+}
+
+module.exports = {
+  getTimeControlError,
+  normalizeTimeControl,
+  createClock,
+  startClock,
+  stopClock,
+  getTimeLeft,
+  swapClockSeats,
+  describeClock
+};
@@ -0,0 +1,234 @@
+// server/engines.js
+// 外部引擎：通过 Gomocup/Piskvork 协议（stdin/stdout 上的文本行）驱动本地的五子棋引擎程序
+// 可用的引擎只在服务器端配置：ENGINE_CONFIG 指向的 JSON 文件（默认 server/engines.json），格式见 engines.example.json
+//   [{ "id": "rapfi", "name": "Rapfi", "command": "/opt/engines/pbrain-rapfi", "args": [], "timeoutTurnMs": 5000 }]
+// command 与 cwd 的相对路径相对于配置文件所在目录
+const fs = require("fs");
+const path = require("path");
+const { spawn } = require("child_process");
+const readline = require("readline");
+
+// 未配置时每步的思考时限，以及在时限之外再等待引擎回复的余量
+const DEFAULT_TURN_TIMEOUT_MS = 5000;
+const REPLY_GRACE_MS = 2000;
+// START 之后等待 OK 的时限
+const START_TIMEOUT_MS = 10000;
+
+// Gomocup 的 INFO rule 位标志：1 = 恰好五连，4 = 连珠
+const RULE_FLAGS = { freestyle: 0, standard: 1, renju: 4 };
+
+// 读取引擎配置，返回 Map<id, engine>；文件不存在时没有可用引擎
+function loadEngines(configPath) {
+  const engines = new Map();
+  if (!fs.existsSync(configPath)) return engines;
+
+  let entries;
+  try {
+    entries = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    console.error('Failed to read engine config', configPath, error.message);
+    return engines;
+  }
+  if (!Array.isArray(entries)) {
+    console.error('Engine config', configPath, 'must be a list of engines');
+    return engines;
+  }
+
+  const baseDir = path.dirname(configPath);
+  const resolve = (target) => (target.includes("/") || target.includes("\\") ? path.resolve(baseDir, target) : target);
+  for (const entry of entries) {
+    if (!entry || typeof entry.id !== "string" || typeof entry.command !== "string") {
+      console.error('Skipping engine config entry without id or command:', entry);
+      continue;
+    }
+    engines.set(entry.id, {
+      id: entry.id,
+      name: typeof entry.name === "string" && entry.name ? entry.name : entry.id,
+      command: resolve(entry.command),
+      args: Array.isArray(entry.args) ? entry.args.map(String) : [],
+      cwd: entry.cwd ? path.resolve(baseDir, entry.cwd) : baseDir,
+      timeoutTurnMs: Number(entry.timeoutTurnMs) || DEFAULT_TURN_TIMEOUT_MS
+    });
+  }
+  return engines;
+}
+
+// 引擎只下两人、五连的标准五子棋
+function getEngineSettingsError({ playerCount, winCondition, variant }) {
+  if (playerCount !== 2) return "Engines only play 2-player games";
+  if (winCondition !== 5) return "Engines only play five in a row";
+  if (variant && variant !== "gomoku") return "Engines only play standard Gomoku";
+  return null;
+}
+
+function sameMove(a, b) {
+  return a.x === b.x && a.y === b.y;
+}
+
+// 一个座位对应一个引擎进程
+// settings = { boardSize, ruleSet }；requestMove 按顺序处理，回调为 (error, { x, y })
+function createEngineSession(engine, settings) {
+  let child = null;
+  let ready = false;
+  // 引擎已知的着法（含它自己下的），据此决定下一次发 TURN、BEGIN 还是 BOARD
+  let known = [];
+  // 正在等待的回复：{ expect: "ok" | "move", callback, timer }
+  let pending = null;
+  const queue = [];
+
+  function log(...args) {
+    console.log(`Engine ${engine.id}:`, ...args);
+  }
+
+  function send(line) {
+    if (child && child.stdin.writable) child.stdin.write(`${line}\n`);
+  }
+
+  function settle(error, value) {
+    const current = pending;
+    if (!current) return;
+    pending = null;
+    clearTimeout(current.timer);
+    current.callback(error, value);
+  }
+
+  function expect(kind, timeoutMs, callback) {
+    pending = {
+      expect: kind,
+      callback,
+      timer: setTimeout(() => {
+        settle(new Error(`no reply within ${timeoutMs} ms`));
+        stop();
+      }, timeoutMs)
+    };
+  }
+
+  function handleLine(rawLine) {
+    const line = rawLine.trim();
+    if (!line) return;
+    const [keyword] = line.split(/\s+/);
+    const upper = keyword.toUpperCase();
+    if (upper === "MESSAGE" || upper === "DEBUG" || upper === "SUGGEST") {
+      log(line);
+      return;
+    }
+    if (!pending) return;
+    if (upper === "ERROR" || upper === "UNKNOWN") {
+      settle(new Error(line));
+      return;
+    }
+    if (pending.expect === "ok") {
+      if (upper === "OK") settle(null);
+      return;
+    }
+    const move = /^(\d+),(\d+)$/.exec(line);
+    if (!move) {
+      log('ignoring unexpected output', JSON.stringify(line));
+      return;
+    }
+    settle(null, { x: Number(move[1]), y: Number(move[2]) });
+  }
+
+  function spawnEngine(callback) {
+    known = [];
+    ready = false;
+    try {
+      child = spawn(engine.command, engine.args, { cwd: engine.cwd, stdio: ["pipe", "pipe", "ignore"] });
+    } catch (error) {
+      child = null;
+      callback(error);
+      return;
+    }
+    const current = child;
+    readline.createInterface({ input: current.stdout }).on("line", (line) => {
+      if (child === current) handleLine(line);
+    });
+    current.on("error", (error) => {
+      if (child !== current) return;
+      child = null;
+      settle(error);
+    });
+    current.on("exit", (code) => {
+      if (child !== current) return;
+      child = null;
+      settle(new Error(`engine exited with code ${code}`));
+    });
+    current.stdin.on("error", () => {});
+
+    expect("ok", START_TIMEOUT_MS, (error) => {
+      if (error) return callback(error);
+      ready = true;
+      send(`INFO timeout_turn ${engine.timeoutTurnMs}`);
+      send("INFO timeout_match 0");
+      send("INFO game_type 1");
+      send(`INFO rule ${RULE_FLAGS[settings.ruleSet] || 0}`);
+      callback(null);
+    });
+    send(`START ${settings.boardSize}`);
+  }
+
+  // 把局面同步给引擎并请它落子：
+  // 比引擎所知多出对方一步时发 TURN；新开局且轮到引擎先手时发 BEGIN；其余情况（悔棋、重开、恢复）用 BOARD 重发整个局面
+  function ask({ moves, me, timeLeftMs }, callback) {
+    const isPrefix = known.length <= moves.length && known.every((move, index) => sameMove(move, moves[index]));
+    if (timeLeftMs !== undefined) send(`INFO time_left ${Math.max(Math.floor(timeLeftMs), 0)}`);
+
+    if (isPrefix && moves.length === known.length + 1 && known.length > 0) {
+      const last = moves[moves.length - 1];
+      send(`TURN ${last.x},${last.y}`);
+    } else if (moves.length === 0 && known.length === 0) {
+      send("BEGIN");
+    } else {
+      send("BOARD");
+      for (const move of moves) send(`${move.x},${move.y},${move.player === me ? 1 : 2}`);
+      send("DONE");
+    }
+
+    expect("move", engine.timeoutTurnMs + REPLY_GRACE_MS, (error, move) => {
+      if (!error) known = [...moves, { ...move, player: me }];
+      callback(error, move);
+    });
+  }
+
+  function processQueue() {
+    if (pending || queue.length === 0) return;
+    const { position, callback } = queue.shift();
+    const done = (error, move) => {
+      callback(error, move);
+      processQueue();
+    };
+    if (child && ready) {
+      ask(position, done);
+      return;
+    }
+    spawnEngine((error) => {
+      if (error) return done(error);
+      ask(position, done);
+    });
+  }
+
+  // position = { moves, me, timeLeftMs? }：moves 为本局全部着法，me 为引擎执的阵营
+  function requestMove(position, callback) {
+    queue.push({ position, callback });
+    processQueue();
+  }
+
+  function stop() {
+    if (!child) return;
+    send("END");
+    const current = child;
+    child = null;
+    ready = false;
+    current.stdin.end();
+    // 不理会 END 的引擎稍后强制结束
+    setTimeout(() => current.kill(), 1000).unref();
+  }
+
+  return { requestMove, stop };
+}
+
+module.exports = {
+  loadEngines,
+  getEngineSettingsError,
+  createEngineSession
+};
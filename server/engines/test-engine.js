@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+// server/engines/test-engine.js
+// 用于离线验证引擎桥接的最小 Gomocup 引擎：总是落在离中心最近的空点
+// 支持 START、RESTART、INFO、BEGIN、TURN、BOARD … DONE、ABOUT、END；标准输入关闭（服务器退出）时随之退出
+const readline = require("readline");
+
+let size = 15;
+let board = [];
+// BOARD 模式下正在接收的局面
+let receivingBoard = false;
+
+function reply(line) {
+  process.stdout.write(`${line}\n`);
+}
+
+function clear() {
+  board = Array.from({ length: size }, () => Array(size).fill(0));
+}
+
+function play() {
+  const center = (size - 1) / 2;
+  let best = null;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (board[y][x]) continue;
+      const distance = (x - center) ** 2 + (y - center) ** 2;
+      if (!best || distance < best.distance) best = { x, y, distance };
+    }
+  }
+  if (!best) return reply("ERROR board is full");
+  board[best.y][best.x] = 1;
+  reply(`${best.x},${best.y}`);
+}
+
+function place(x, y, stone) {
+  if (!(x >= 0 && y >= 0 && x < size && y < size) || board[y][x]) return false;
+  board[y][x] = stone;
+  return true;
+}
+
+readline.createInterface({ input: process.stdin }).on("line", (rawLine) => {
+  const line = rawLine.trim();
+  if (!line) return;
+
+  if (receivingBoard) {
+    if (line.toUpperCase() === "DONE") {
+      receivingBoard = false;
+      play();
+      return;
+    }
+    const [x, y, stone] = line.split(",").map(Number);
+    if (!place(x, y, stone === 1 ? 1 : 2)) reply(`ERROR bad board line ${line}`);
+    return;
+  }
+
+  const [command, argument = ""] = line.split(/\s+/, 2);
+  switch (command.toUpperCase()) {
+    case "START": {
+      const requested = Number(argument);
+      if (!Number.isInteger(requested) || requested < 5 || requested > 19) return reply("ERROR unsupported size");
+      size = requested;
+      clear();
+      return reply("OK");
+    }
+    case "RESTART":
+      clear();
+      return reply("OK");
+    case "INFO":
+      return;
+    case "BEGIN":
+      return play();
+    case "TURN": {
+      const [x, y] = argument.split(",").map(Number);
+      if (!place(x, y, 2)) return reply(`ERROR bad move ${argument}`);
+      return play();
+    }
+    case "BOARD":
+      clear();
+      receivingBoard = true;
+      return;
+    case "ABOUT":
+      return reply('name="Test Engine", version="1.0", author="gomoku", country="-"');
+    case "END":
+      return process.exit(0);
+    default:
+      return reply(`UNKNOWN ${command}`);
+  }
+}).on("close", () => process.exit(0));
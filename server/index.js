@@ -4,7 +4,64 @@ const { createServer } = require("http");
 const { Server } = require("socket.io");
 const cors = require("cors");
 const { customAlphabet } = require("nanoid");
+const { createHash } = require("crypto");
 const path = require('path');
+const { RECORD_FORMATS, formatRecord, parseRecord } = require("./records");
+// 对局规则与客户端共用，见 shared/rules
+const {
+  SIDE_NUMBERS,
+  sideOfNumber,
+  createEmptyBoard,
+  getNextTurn,
+  getRuleSetError,
+  getForbiddenPoints,
+  getVariantError,
+  passesTurn,
+  isTurnStart,
+  getVariant,
+  getMoveError,
+  applyMove,
+  rebuildGame
+} = require("../shared/rules/index.js");
+const { PROTOCOL_VERSION } = require("../shared/protocol/index.js");
+const { BOT_LEVELS, chooseMove } = require("./ai");
+const { createStore } = require("./store");
+const { INITIAL_RATING, createPlayerRecord, computeRatingChanges, outcomeOf } = require("./ratings");
+const { normalizeQueueSettings, getQueueKey, findMatch } = require("./matchmaking");
+const { SERIES_LENGTHS, createSeries, recordSeriesGame, describeSeries } = require("./series");
+const { getPasswordError, hashPassword, checkPassword, createInvite } = require("./access");
+const { validate } = require("./validation");
+const { REQUEST_SCHEMAS, EVENT_SCHEMAS, BOT_EVENT_SCHEMAS } = require("./schemas");
+const { createRateLimiter } = require("./rateLimit");
+const { loadEngines, getEngineSettingsError, createEngineSession } = require("./engines");
+const { hashBotToken, getBotNameError, createBotAccount } = require("./bots");
+const {
+  getTournamentError,
+  createTournament,
+  getMatchesToStart,
+  recordMatchResult,
+  updateMatch,
+  describeTournament
+} = require("./tournaments");
+const {
+  OPENING_RULES,
+  createOpening,
+  getOpeningActor,
+  isPlacementPhase,
+  advanceOpening,
+  applyOpeningChoice,
+  describeOpening
+} = require("./openings");
+const {
+  getTimeControlError,
+  normalizeTimeControl,
+  createClock,
+  startClock,
+  stopClock,
+  getTimeLeft,
+  swapClockSeats,
+  describeClock
+} = require("./clocks");
 const nanoid = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 6);
 
 const app = express();
@@ -44,6 +101,17 @@ app.use(cors({
 }));
 app.use(express.json());
 
+// 请求体不是合法 JSON 或过大时，同样返回可读的 JSON 错误
+app.use((err, req, res, next) => {
+  if (err.type === "entity.parse.failed") return res.status(400).json({ error: "Request body is not valid JSON", code: "invalid_payload" });
+  if (err.type === "entity.too.large") return res.status(413).json({ error: "Request body is too large", code: "invalid_payload" });
+  next(err);
+});
+
+// 部署在反向代理（如 Render）之后时设置 TRUST_PROXY=1，按 X-Forwarded-For 识别客户端 IP
+const TRUST_PROXY = !!process.env.TRUST_PROXY;
+if (TRUST_PROXY) app.set("trust proxy", 1);
+
 // 健康检查端点 - Render需要这个
 app.get("/health", (req, res) => {
   res.status(200).json({ 
@@ -61,7 +129,19 @@ app.get("/api", (req, res) => {
     endpoints: {
       api: "/api",
       health: "/health",
-      createRoom: "/api/create-room"
+      createRoom: "/api/create-room",
+      importGame: "/api/import-game",
+      exportGame: "/api/rooms/:roomId/record?format=coordinates|psq",
+      game: "/api/games/:gameId",
+      gameRecord: "/api/games/:gameId/record?format=coordinates|psq",
+      rooms: "/api/rooms",
+      engines: "/api/engines",
+      registerBot: "/api/bots",
+      tournaments: "/api/tournaments",
+      tournament: "/api/tournaments/:tournamentId",
+      botSocket: "/bot",
+      leaderboard: "/api/leaderboard",
+      player: "/api/players/:playerId"
     }
   });
 });
@@ -83,137 +163,1752 @@ const io = new Server(server, {
   transports: ['websocket', 'polling']
 });
 
-const PORT = process.env.PORT || 4000;
+// 外部机器人的连接：握手时以 auth.token 认证，协议见 README
+const botNamespace = io.of("/bot");
+
+const PORT = process.env.PORT || 4000;
+
+// 内存中的房间数据；配置了持久化存储（ROOM_STORE=file）时每步落子后写入，重启时恢复
+// 结构： rooms[roomId] = { players: { black: Seat|null, white: Seat|null, third: Seat|null }, board, turn, moves, result, takeback, settings }
+// moves 按顺序记录本局每一步 { x, y, player }；result 为本局结果，未结束时为 null；takeback 为进行中的悔棋请求
+// opening 为进行中的开局（Swap/Swap2）状态，openingMoves 为开局摆下的棋子数，悔棋不能退回其中
+// clock 为对局计时状态，不计时时为 null；chat 为最近的聊天消息
+// hostToken 为房主的玩家令牌（快速匹配建的房间没有房主）；locked 时不再接受新加入者；bannedTokens 为被踢出并禁止再进的令牌
+// resetRequest 为非房主发起、等待其余棋手同意的重开请求；series 为 best-of-N 系列赛的比分，单局对决时为 null
+// drawOffer 为待回应的和棋提议；resigned 为三人局中已认输、退出轮转的阵营
+// Seat = { token, socketId, connected, bot?, engine?, botId? }：token 是玩家令牌，断线后凭它找回原座位；bot 为电脑难度，外部引擎座位为 "engine"，engine 为引擎 id
+// 外部机器人座位的 bot 为 "external"，botId 为机器人账号 id，token 为其令牌的哈希
+const rooms = new Map();
+
+// 已结束的对局：games[gameId] = { id, settings, players, moves, result, finishedAt }，供复盘分享
+// 房间清理后依然保留，超出上限时淘汰最早的
+const games = new Map();
+const MAX_ARCHIVED_GAMES = 1000;
+const generateGameId = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 8);
+
+// 等级分记录：playerRecords[playerId] = { id, nickname, rating, games, wins, losses, draws }
+const playerRecords = new Map();
+
+// 房间与对局的持久化存储
+const store = createStore();
+
+// 快速匹配队列：matchQueues[queueKey] = [{ socketId, token, profile, rating, settings, joinedAt }]，按加入先后排列
+const matchQueues = new Map();
+
+// 匹配等待上限，以及定期重试匹配（分差容忍范围随时间放宽）的间隔
+const QUICK_MATCH_TIMEOUT_MS = Number(process.env.QUICK_MATCH_TIMEOUT_MS) || 120000;
+const MATCHMAKING_INTERVAL_MS = 2000;
+
+// 座位键与阵营名的对应：players.third 即绿色玩家
+const SEAT_SIDES = { black: "black", white: "white", third: "green" };
+
+// 断线后为玩家保留座位的宽限期（毫秒）
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 60000;
+
+// 聊天：新加入者可看到的最近消息条数、单条消息长度上限
+const CHAT_HISTORY_LIMIT = 50;
+const CHAT_MAX_LENGTH = 200;
+
+// 昵称长度上限
+const NICKNAME_MAX_LENGTH = 20;
+
+// 电脑落子前的停顿（毫秒）
+const BOT_MOVE_DELAY_MS = 500;
+
+// 服务器端配置的外部引擎（见 engines.js），以及运行中的引擎进程：engineSessions[seatToken] = session
+const engines = loadEngines(process.env.ENGINE_CONFIG ? path.resolve(process.env.ENGINE_CONFIG) : path.join(__dirname, "engines.json"));
+const engineSessions = new Map();
+
+// 外部机器人账号：botAccounts[botId] = { id, name, tokenHash, createdAt }
+const botAccounts = new Map();
+// 外部机器人每步的思考时限，以及全是电脑的房间中系列赛下一局自动开始前的停顿
+const BOT_MOVE_DEADLINE_MS = Number(process.env.BOT_MOVE_DEADLINE_MS) || 10000;
+const BOT_REMATCH_DELAY_MS = 3000;
+// 正在等外部机器人落子的房间：botTurns[roomId] = { seatKey, moveCount, deadline, timer }
+const botTurns = new Map();
+
+// 玩家令牌：首次加入时签发，客户端保存在浏览器中
+const generatePlayerToken = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", 24);
+
+// 座位释放计时器，key 为 `${roomId}:${seatKey}`
+const seatReleaseTimers = new Map();
+
+// 超时判负计时器，key 为 roomId
+const clockTimers = new Map();
+
+// 大厅：订阅者加入这个 Socket.IO 频道接收公开房间列表；房间变化较密集，合并后再推送
+const LOBBY_CHANNEL = "__lobby__";
+const LOBBY_UPDATE_DELAY_MS = 500;
+let lobbyUpdateTimer = null;
+
+// 锦标赛：tournaments[tournamentId] = tournament（结构见 tournaments.js）；对局房间的 room.tournament = { id, matchId }
+// 赛况页订阅 tournamentChannel(id) 频道接收 tournament_state；淘汰赛和棋后稍等再交换先后手重下
+const tournaments = new Map();
+const TOURNAMENT_REPLAY_DELAY_MS = 5000;
+const tournamentChannel = (tournamentId) => `__tournament__:${tournamentId}`;
+
+// 上限：房间总数、单个房间内的连接数，防止单个脚本耗尽内存
+const MAX_ROOMS = Number(process.env.MAX_ROOMS) || 1000;
+const MAX_SOCKETS_PER_ROOM = Number(process.env.MAX_SOCKETS_PER_ROOM) || 50;
+
+// 限流：建房按 IP；加入按连接与 IP；落子、重开按连接；另有所有事件合计的连接级上限
+const rateLimiters = {
+  createRoom: createRateLimiter({ limit: 10, windowMs: 60000 }),
+  joinSocket: createRateLimiter({ limit: 10, windowMs: 10000 }),
+  joinIp: createRateLimiter({ limit: 60, windowMs: 60000 }),
+  move: createRateLimiter({ limit: 5, windowMs: 1000 }),
+  reset: createRateLimiter({ limit: 5, windowMs: 60000 }),
+  events: createRateLimiter({ limit: 50, windowMs: 1000 }),
+  registerBot: createRateLimiter({ limit: 5, windowMs: 3600000 }),
+  botConnect: createRateLimiter({ limit: 20, windowMs: 60000 })
+};
+const RATE_LIMIT_PRUNE_INTERVAL_MS = 60000;
+
+// 各事件在合计上限之外还要过的限流器，by 为计数依据
+const EVENT_RATE_LIMITS = {
+  join_room: [{ limiter: "joinSocket", by: "socket" }, { limiter: "joinIp", by: "ip" }],
+  place_piece: [{ limiter: "move", by: "socket" }],
+  move: [{ limiter: "move", by: "socket" }],
+  reset_game: [{ limiter: "reset", by: "socket" }]
+};
+
+function createRoom({
+  playerCount = 2,
+  winCondition = 5,
+  boardSize = 15,
+  ruleSet = "freestyle",
+  opening = "none",
+  timeControl = { type: "none" },
+  hideSpectatorChat = false,
+  rated = false,
+  computer = null,
+  isPublic = false,
+  bestOf = 1,
+  variant = "gomoku"
+} = {}) {
+  const room = {
+    players: {
+      black: null,
+      white: null,
+      third: playerCount === 3 ? null : undefined
+    },
+    board: createEmptyBoard(boardSize),
+    turn: 1, // 1黑先手，2白，3第三玩家
+    moves: [],
+    result: null,
+    takeback: null,
+    opening: createOpening(opening),
+    openingMoves: 0,
+    clock: createClock(timeControl, getSeatKeys(playerCount)),
+    chat: [],
+    hostToken: null,
+    locked: false,
+    bannedTokens: [],
+    // 房间密码的加盐哈希（无密码时为 null）、未使用的座位邀请，以及已通过密码或邀请进入过的玩家
+    password: null,
+    invites: [],
+    admittedTokens: [],
+    resetRequest: null,
+    drawOffer: null,
+    resigned: [],
+    series: createSeries(bestOf),
+    // Pente 中各方已提走的对数
+    captures: { black: 0, white: 0 },
+    // 锦标赛对局房间：{ id, matchId }，普通房间为 null
+    tournament: null,
+    // 状态序号：每次广播改变对局状态的事件加一
+    stateSeq: 0,
+    settings: {
+      playerCount,
+      winCondition,
+      boardSize,
+      ruleSet,
+      opening,
+      timeControl,
+      hideSpectatorChat, // 观战者的聊天不让对局中的棋手看到
+      rated, // 计入等级分
+      computer, // { level, count, engine?, engineName? } | null
+      isPublic, // 在大厅中列出；私人房间只能凭房间号加入
+      bestOf, // 系列赛局数，每局后轮换座位
+      variant // 玩法变体：gomoku / connect6 / pente
+    }
+  };
+
+  // 电脑占据靠后的座位，真人执黑先行
+  if (computer) {
+    for (const seatKey of getSeatKeys(playerCount).slice(-computer.count)) {
+      room.players[seatKey] = computer.engine
+        ? createEngineSeat({ id: computer.engine, name: computer.engineName })
+        : createBotSeat(computer.level);
+    }
+  }
+  return room;
+}
+
+// 规范化创建房间时的电脑对手设置：{ level, count }、外部引擎 { level: null, count: 1, engine, engineName } 或 null
+function normalizeComputerSetting(computer, playerCount) {
+  if (!computer) return null;
+  if (computer.engine) return { level: null, count: 1, engine: computer.engine, engineName: engines.get(computer.engine).name };
+  const level = BOT_LEVELS.includes(computer.level) ? computer.level : "medium";
+  const count = Math.min(Math.max(Number(computer.count) || 1, 1), playerCount - 1);
+  return { level, count };
+}
+
+// 仍在轮转中的座位
+function getActiveSeatKeys(room) {
+  return getSeatKeys(room.settings.playerCount).filter((seatKey) => !room.resigned.includes(SEAT_SIDES[seatKey]));
+}
+
+// 棋谱导入时各种不合法着法的说明
+const REPLAY_ERRORS = {
+  "game-over": "comes after the game ended",
+  "off-board": "is off the board",
+  occupied: "is on an occupied point"
+};
+
+// 在新房间中按顺序重放棋谱，逐步校验；房间本身即一局棋的状态，直接交给共用规则
+function replayMoves(room, moves) {
+  moves.forEach(({ x, y }, index) => {
+    const error = getMoveError(room, x, y);
+    if (error) {
+      const detail = error.forbidden ? `is a forbidden move (${error.reason})` : REPLAY_ERRORS[error.reason];
+      throw new Error(`Move ${index + 1} ${detail}`);
+    }
+    applyMove(room, x, y);
+  });
+}
+
+// 对局结束时存档，返回 gameId
+function archiveGame(room) {
+  let gameId = generateGameId();
+  while (games.has(gameId)) gameId = generateGameId();
+
+  const game = {
+    id: gameId,
+    settings: { ...room.settings },
+    // 各座位的昵称，复盘时显示
+    players: Object.fromEntries(
+      getSeatKeys(room.settings.playerCount).map((seatKey) => [seatKey, room.players[seatKey]?.profile.nickname || null])
+    ),
+    moves: room.moves.slice(),
+    result: {
+      winner: room.result.winner,
+      draw: !!room.result.draw,
+      reason: room.result.reason,
+      loser: room.result.loser
+    },
+    finishedAt: new Date().toISOString()
+  };
+  games.set(gameId, game);
+  withStore(`save game ${gameId}`, () => store.saveGame(game));
+  if (games.size > MAX_ARCHIVED_GAMES) {
+    const evictedId = games.keys().next().value;
+    games.delete(evictedId);
+    withStore(`delete game ${evictedId}`, () => store.deleteGame(evictedId));
+  }
+  return gameId;
+}
+
+// 存储出错只记录日志，不影响对局进行
+function withStore(description, operation) {
+  try {
+    operation();
+  } catch (error) {
+    console.error('Store error:', description, error.message);
+  }
+}
+
+// 写入存储的房间快照：座位只保留令牌、昵称与电脑难度，连接状态与悔棋请求不保存
+function serializeRoom(room) {
+  const players = {};
+  for (const seatKey of getSeatKeys(room.settings.playerCount)) {
+    const seat = room.players[seatKey];
+    players[seatKey] = seat ? { token: seat.token, profile: seat.profile, bot: seat.bot || null, engine: seat.engine || null, botId: seat.botId || null } : null;
+  }
+  return {
+    players,
+    board: room.board,
+    turn: room.turn,
+    moves: room.moves,
+    result: room.result,
+    opening: room.opening,
+    openingMoves: room.openingMoves,
+    clock: room.clock,
+    chat: room.chat,
+    hostToken: room.hostToken,
+    locked: room.locked,
+    bannedTokens: room.bannedTokens,
+    password: room.password,
+    invites: room.invites,
+    admittedTokens: room.admittedTokens,
+    resigned: room.resigned,
+    series: room.series,
+    captures: room.captures,
+    tournament: room.tournament,
+    stateSeq: room.stateSeq,
+    settings: room.settings
+  };
+}
+
+// 从快照恢复房间：真人座位视为断线待重连，计时暂停到有人回来
+function restoreRoom(data) {
+  const restoreSeat = (saved) => {
+    if (!saved) return null;
+    if (saved.engine) return createEngineSeat({ id: saved.engine, name: saved.profile.nickname }, saved.token);
+    if (saved.bot === "external") return { token: saved.token, socketId: null, connected: false, bot: "external", botId: saved.botId, profile: saved.profile };
+    if (saved.bot) return createBotSeat(saved.bot, saved.token);
+    return { token: saved.token, socketId: null, connected: false, profile: saved.profile };
+  };
+  return {
+    players: {
+      black: restoreSeat(data.players.black),
+      white: restoreSeat(data.players.white),
+      third: data.settings.playerCount === 3 ? restoreSeat(data.players.third) : undefined
+    },
+    board: data.board,
+    turn: data.turn,
+    moves: data.moves,
+    result: data.result,
+    takeback: null,
+    opening: data.opening,
+    openingMoves: data.openingMoves,
+    clock: data.clock ? { ...data.clock, running: null, startedAt: null } : null,
+    chat: data.chat,
+    hostToken: data.hostToken || null,
+    locked: !!data.locked,
+    bannedTokens: data.bannedTokens || [],
+    password: data.password || null,
+    invites: data.invites || [],
+    admittedTokens: data.admittedTokens || [],
+    resetRequest: null,
+    drawOffer: null,
+    resigned: data.resigned || [],
+    series: data.series || null,
+    captures: data.captures || { black: 0, white: 0 },
+    tournament: data.tournament || null,
+    stateSeq: data.stateSeq || 0,
+    settings: data.settings
+  };
+}
+
+function persistRoom(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  withStore(`save room ${roomId}`, () => store.saveRoom(roomId, serializeRoom(room)));
+}
+
+// 启动时从存储恢复对局存档与房间，为每个真人座位开始重连宽限期
+function restoreFromStore() {
+  for (const player of store.loadPlayers()) {
+    playerRecords.set(player.id, player);
+  }
+  for (const bot of store.loadBots()) {
+    botAccounts.set(bot.id, bot);
+  }
+  for (const tournament of store.loadTournaments()) {
+    tournaments.set(tournament.id, tournament);
+  }
+  for (const game of store.loadGames().slice(-MAX_ARCHIVED_GAMES)) {
+    games.set(game.id, game);
+  }
+  for (const [roomId, data] of store.loadRooms()) {
+    rooms.set(roomId, restoreRoom(data));
+    for (const seatKey of Object.keys(SEAT_SIDES)) {
+      const seat = rooms.get(roomId).players[seatKey];
+      if (seat && (!seat.bot || isExternalBot(seat))) scheduleSeatRelease(roomId, seatKey);
+    }
+  }
+  console.log('Restored', rooms.size, 'rooms,', games.size, 'games,', playerRecords.size, 'players,', botAccounts.size, 'bots and', tournaments.size, 'tournaments from', store.kind, 'store');
+}
+
+function createSeat(token, socketId, profile) {
+  return { token, socketId, connected: true, profile };
+}
+
+// 电脑也有令牌，用于在系列赛中跟随轮换后的座位记分
+function createBotSeat(level, token = `bot-${generatePlayerToken()}`) {
+  const profile = { nickname: `Computer (${level})`, color: null };
+  return { token, socketId: null, connected: true, bot: level, profile };
+}
+
+// 外部引擎座位按电脑处理（不计重连、不阻止房间清理），落子由 requestEngineMove 向引擎进程索取
+function createEngineSeat(engine, token = `bot-${generatePlayerToken()}`) {
+  const profile = { nickname: engine.name, color: null };
+  return { token, socketId: null, connected: true, bot: "engine", engine: engine.id, profile };
+}
+
+// 外部机器人座位：由机器人自己的连接控制，断线重连、座位保留与房间清理都按真人处理
+function createExternalBotSeat(account, socketId) {
+  const profile = { nickname: account.name, color: null };
+  return { token: account.tokenHash, socketId, connected: true, bot: "external", botId: account.id, profile };
+}
+
+function isExternalBot(seat) {
+  return !!seat && seat.bot === "external";
+}
+
+// 玩家自选的昵称与头像颜色；未填写时为 null，由客户端显示默认名称
+function normalizeProfile({ nickname, color } = {}) {
+  const name = typeof nickname === "string" ? nickname.trim().slice(0, NICKNAME_MAX_LENGTH).trim() : "";
+  return {
+    nickname: name || null,
+    color: typeof color === "string" && /^#[0-9a-f]{6}$/i.test(color) ? color.toLowerCase() : null
+  };
+}
+
+function getSeatKeys(playerCount) {
+  return Object.keys(SEAT_SIDES).slice(0, playerCount);
+}
+
+function seatKeyOfSide(side) {
+  return side === "green" ? "third" : side;
+}
+
+// 按令牌查找该玩家原来的座位
+function findSeatByToken(room, token) {
+  for (const seatKey of Object.keys(SEAT_SIDES)) {
+    const seat = room.players[seatKey];
+    if (seat && seat.token === token) return seatKey;
+  }
+  return null;
+}
+
+// 空着且没有为邀请保留的座位
+function isOpenSeat(room, seatKey) {
+  return !room.players[seatKey] && !room.invites.some((invite) => invite.seatKey === seatKey);
+}
+
+function getSocketIp(socket) {
+  const forwarded = socket.handshake.headers["x-forwarded-for"];
+  if (TRUST_PROXY && typeof forwarded === "string" && forwarded) return forwarded.split(",")[0].trim();
+  return socket.handshake.address;
+}
+
+// 房间内观战者的昵称与头像颜色
+function getSpectatorProfiles(roomId) {
+  const profiles = [];
+  for (const socketId of io.sockets.adapter.rooms.get(roomId) || []) {
+    const roomSocket = io.sockets.sockets.get(socketId);
+    if (roomSocket && roomSocket.data.side === "spectator") {
+      profiles.push({ id: socketId, ...roomSocket.data.profile });
+    }
+  }
+  return profiles;
+}
+
+function getRoomStatePayload(roomId, room) {
+  const hasThird = room.settings.playerCount === 3;
+  const isOnline = (seat) => !!(seat && seat.connected);
+  const isReconnecting = (seat) => !!(seat && !seat.connected);
+
+  return {
+    players: {
+      black: isOnline(room.players.black),
+      white: isOnline(room.players.white),
+      third: hasThird ? isOnline(room.players.third) : undefined
+    },
+    // 各座位的昵称与头像颜色
+    profiles: {
+      black: room.players.black ? room.players.black.profile : null,
+      white: room.players.white ? room.players.white.profile : null,
+      third: hasThird ? (room.players.third ? room.players.third.profile : null) : undefined
+    },
+    spectators: getSpectatorProfiles(roomId),
+    // 计分房间中各座位玩家的当前等级分
+    ratings: room.settings.rated ? getSeatRatings(room) : null,
+    // 断线但座位仍在保留期内的玩家
+    reconnecting: {
+      black: isReconnecting(room.players.black),
+      white: isReconnecting(room.players.white),
+      third: hasThird ? isReconnecting(room.players.third) : undefined
+    },
+    // 连珠规则下轮到黑棋时的禁手点
+    forbiddenPoints: room.settings.ruleSet === "renju" && room.turn === 1 && !room.result
+      ? getForbiddenPoints(room.board)
+      : [],
+    // 开局阶段的行动方与可选项
+    opening: room.opening ? describeOpening(room.opening) : null,
+    // 由电脑控制的座位：内置电脑为难度，外部引擎为 "engine"，外部机器人为 "external"，真人为 null
+    bots: {
+      black: room.players.black?.bot || null,
+      white: room.players.white?.bot || null,
+      third: hasThird ? room.players.third?.bot || null : undefined
+    },
+    // 各座位剩余时间
+    clock: getClockPayload(room),
+    // 房主（以公开的玩家 id 标识）与其当前阵营，房主不在房间时 side 为 null
+    host: room.hostToken ? { playerId: getPlayerId(room.hostToken), side: getHostSide(roomId, room) } : null,
+    locked: room.locked,
+    hasPassword: !!room.password,
+    // 有未使用邀请的座位，只留给持邀请的玩家
+    reservedSeats: room.invites.map((invite) => invite.seatKey),
+    // 系列赛比分与每局结果
+    series: room.series ? describeSeries(room.series) : null,
+    // 待回应的和棋提议，以及三人局中已认输的阵营
+    drawOffer: room.drawOffer ? { by: room.drawOffer.by, pending: room.drawOffer.pending } : null,
+    resigned: room.resigned,
+    // 等待其余棋手同意的重开请求
+    resetRequest: room.resetRequest ? { by: room.resetRequest.by, pending: room.resetRequest.pending } : null,
+    // Pente 中各方已提走的对数，其余玩法为 null
+    captures: getVariant(room.settings) === "pente" ? room.captures : null,
+    turn: room.turn,
+    settings: room.settings
+  };
+}
+
+function isHost(socket, room) {
+  return !!room.hostToken && socket.data.playerToken === room.hostToken;
+}
+
+function getHostSide(roomId, room) {
+  const seatKey = findSeatByToken(room, room.hostToken);
+  if (seatKey) return room.players[seatKey].connected ? SEAT_SIDES[seatKey] : null;
+  for (const socketId of io.sockets.adapter.rooms.get(roomId) || []) {
+    const roomSocket = io.sockets.sockets.get(socketId);
+    if (roomSocket && isHost(roomSocket, room)) return roomSocket.data.side;
+  }
+  return null;
+}
+
+// 对局进行中：已有落子且尚未结束；房主只能在对局之间修改设置或调换座位
+function isGameInProgress(room) {
+  return room.moves.length > 0 && !room.result;
+}
+
+function getClockPayload(room) {
+  return room.clock ? describeClock(room.clock, Date.now()) : null;
+}
+
+// 广播改变对局状态的事件，带上加一后的状态序号；客户端据此发现漏收或乱序的事件，再以 get_room_state 请求快照
+function broadcastSequenced(roomId, event, payload) {
+  const room = rooms.get(roomId);
+  room.stateSeq += 1;
+  io.to(roomId).emit(event, { ...payload, seq: room.stateSeq });
+}
+
+function broadcastRoomState(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  broadcastSequenced(roomId, "room_state", getRoomStatePayload(roomId, room));
+  if (room.settings.isPublic) scheduleLobbyUpdate();
+}
+
+// 房间的完整快照：棋局与房间状态，seq 为当前状态序号，客户端以此为起点继续接收广播
+function getRoomSnapshot(roomId, room) {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    seq: room.stateSeq,
+    roomId,
+    turn: room.turn,
+    board: room.board,
+    moves: room.moves,
+    result: room.result,
+    takeback: room.takeback ? { by: room.takeback.by } : null,
+    settings: room.settings,
+    room: getRoomStatePayload(roomId, room)
+  };
+}
+
+// 大厅中的一个公开房间：等人的房间显示空座数，进行中的对局显示步数，供观战
+function describeLobbyRoom(roomId, room) {
+  const seatKeys = getSeatKeys(room.settings.playerCount);
+  const players = {};
+  for (const seatKey of seatKeys) {
+    const seat = room.players[seatKey];
+    players[seatKey] = seat ? { nickname: seat.profile?.nickname || null, bot: !!seat.bot } : null;
+  }
+  const { playerCount, winCondition, boardSize, ruleSet, opening, timeControl, rated } = room.settings;
+  return {
+    roomId,
+    settings: { playerCount, winCondition, boardSize, ruleSet, opening, timeControl, rated, variant: getVariant(room.settings) },
+    players,
+    freeSeats: seatKeys.filter((seatKey) => isOpenSeat(room, seatKey)).length,
+    hasPassword: !!room.password,
+    moveCount: room.moves.length,
+    spectators: getSpectatorProfiles(roomId).length
+  };
+}
+
+// 大厅列表：waiting 为有空座的房间，live 为坐满且未结束的对局；新建的排在前面
+function getLobbyRooms() {
+  const waiting = [];
+  const live = [];
+  for (const [roomId, room] of rooms) {
+    if (!room.settings.isPublic) continue;
+    const entry = describeLobbyRoom(roomId, room);
+    if (entry.freeSeats > 0) {
+      waiting.push(entry);
+    } else if (!room.result) {
+      live.push(entry);
+    }
+  }
+  return { waiting: waiting.reverse(), live: live.reverse() };
+}
+
+function scheduleLobbyUpdate() {
+  if (lobbyUpdateTimer) return;
+  lobbyUpdateTimer = setTimeout(() => {
+    lobbyUpdateTimer = null;
+    const subscribers = io.sockets.adapter.rooms.get(LOBBY_CHANNEL);
+    if (!subscribers || subscribers.size === 0) return;
+    io.to(LOBBY_CHANNEL).emit("lobby_rooms", getLobbyRooms());
+  }, LOBBY_UPDATE_DELAY_MS);
+}
+
+function clearSeatReleaseTimer(roomId, seatKey) {
+  const key = `${roomId}:${seatKey}`;
+  const timer = seatReleaseTimers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    seatReleaseTimers.delete(key);
+  }
+}
+
+// 宽限期结束仍未重连，则释放座位
+function scheduleSeatRelease(roomId, seatKey) {
+  clearSeatReleaseTimer(roomId, seatKey);
+  const timer = setTimeout(() => {
+    seatReleaseTimers.delete(`${roomId}:${seatKey}`);
+    const room = rooms.get(roomId);
+    if (!room) return;
+    const seat = room.players[seatKey];
+    if (!seat || seat.connected) return;
+
+    console.log('Releasing', seatKey, 'seat in room', roomId, 'after grace period');
+    // 对局中途离开视为弃局
+    if (isGameInProgress(room) && !room.resigned.includes(SEAT_SIDES[seatKey])) {
+      resignSide(roomId, SEAT_SIDES[seatKey], "abandonment");
+    }
+    room.players[seatKey] = null;
+    cancelResetRequest(roomId);
+    syncClock(roomId);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+    deleteRoomIfAbandoned(roomId);
+  }, RECONNECT_GRACE_MS);
+  seatReleaseTimers.set(`${roomId}:${seatKey}`, timer);
+}
+
+function clearClockTimer(roomId) {
+  const timer = clockTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    clockTimers.delete(roomId);
+  }
+}
+
+// 当前该行动的座位：开局阶段由开局状态决定，否则为轮到的一方
+function getActingSeat(room) {
+  return room.opening ? getOpeningActor(room.opening) : seatKeyOfSide(sideOfNumber(room.turn));
+}
+
+// 让计时跟上房间状态：对局进行中且座位坐满时为行动方计时，否则暂停
+function syncClock(roomId) {
+  const room = rooms.get(roomId);
+  clearClockTimer(roomId);
+  if (!room || !room.clock) return;
+
+  const now = Date.now();
+  const seatsTaken = getActiveSeatKeys(room).every((seatKey) => room.players[seatKey]);
+  const actor = room.result || !seatsTaken ? null : getActingSeat(room);
+  if (room.clock.running !== actor) {
+    room.clock = stopClock(room.clock, now, { increment: false });
+    if (actor) room.clock = startClock(room.clock, actor, now);
+  }
+  if (!actor) return;
+
+  const timer = setTimeout(() => {
+    clockTimers.delete(roomId);
+    if (rooms.get(roomId) !== room || room.result || !room.clock || room.clock.running !== actor) return;
+    // 计时器可能略早触发，以实际剩余时间为准
+    if (getTimeLeft(room.clock, actor, Date.now()) > 0) return syncClock(roomId);
+    handleTimeout(roomId, actor);
+  }, getTimeLeft(room.clock, actor, now));
+  clockTimers.set(roomId, timer);
+}
+
+// 行动方完成一步（落子或开局选择）：停表并计入加秒；返回 false 表示此前已超时
+// endOfTurn 为 false 时（六子棋回合中的第一子）只检查是否超时，时钟继续走
+function chargeClock(roomId, { endOfTurn = true } = {}) {
+  const room = rooms.get(roomId);
+  if (!room.clock || !room.clock.running) return true;
+  const seatKey = room.clock.running;
+  if (!endOfTurn) {
+    if (getTimeLeft(room.clock, seatKey, Date.now()) > 0) return true;
+    clearClockTimer(roomId);
+    room.clock = stopClock(room.clock, Date.now(), { increment: false });
+    handleTimeout(roomId, seatKey);
+    return false;
+  }
+  clearClockTimer(roomId);
+  room.clock = stopClock(room.clock, Date.now());
+  if (room.clock.remaining[seatKey] > 0) return true;
+  handleTimeout(roomId, seatKey);
+  return false;
+}
+
+// 超时判负：两人局对手获胜；三人局无胜者
+function handleTimeout(roomId, seatKey) {
+  const room = rooms.get(roomId);
+  const side = SEAT_SIDES[seatKey];
+  cancelTakeback(roomId);
+  room.clock = stopClock(room.clock, Date.now(), { increment: false });
+  const winner = room.settings.playerCount === 2 ? (side === "black" ? "white" : "black") : null;
+  room.result = { winner, draw: false, reason: "timeout", loser: side };
+  console.log('Side', side, 'ran out of time in room', roomId);
+  finishGame(roomId);
+}
+
+// 公开的玩家 id：由玩家令牌单向派生，令牌本身不外泄
+function getPlayerId(token) {
+  return createHash("sha256").update(token).digest("hex").slice(0, 16);
+}
+
+function getPlayerRating(token) {
+  const record = playerRecords.get(getPlayerId(token));
+  return record ? record.rating : INITIAL_RATING;
+}
+
+function getSeatRatings(room) {
+  const ratings = {};
+  for (const seatKey of getSeatKeys(room.settings.playerCount)) {
+    const seat = room.players[seatKey];
+    ratings[seatKey] = seat && seat.token ? getPlayerRating(seat.token) : null;
+  }
+  return ratings;
+}
+
+// 计分对局结束：按赛前等级分结算所有座位，结果附在 room.result.ratings 上
+// 有座位空着或由电脑占据（内置电脑、外部引擎与外部机器人的座位也有令牌）时不计分
+function applyRatings(room) {
+  const seatKeys = getSeatKeys(room.settings.playerCount);
+  const isHumanSeat = (seat) => !!(seat && seat.token && !seat.bot && !seat.engine);
+  if (!seatKeys.every((seatKey) => isHumanSeat(room.players[seatKey]))) return;
+
+  const before = {};
+  for (const seatKey of seatKeys) {
+    before[SEAT_SIDES[seatKey]] = getPlayerRating(room.players[seatKey].token);
+  }
+  const after = computeRatingChanges(before, room.result);
+
+  room.result.ratings = {};
+  for (const seatKey of seatKeys) {
+    const side = SEAT_SIDES[seatKey];
+    const seat = room.players[seatKey];
+    const id = getPlayerId(seat.token);
+    const record = playerRecords.get(id) || createPlayerRecord(id, null);
+    const outcome = outcomeOf(room.result, side);
+    const updated = {
+      ...record,
+      nickname: seat.profile.nickname || record.nickname,
+      rating: after[side],
+      games: record.games + 1,
+      wins: record.wins + (outcome === "win" ? 1 : 0),
+      losses: record.losses + (outcome === "loss" ? 1 : 0),
+      draws: record.draws + (outcome === "draw" ? 1 : 0)
+    };
+    playerRecords.set(id, updated);
+    withStore(`save player ${id}`, () => store.savePlayer(updated));
+    room.result.ratings[side] = { playerId: id, before: before[side], after: after[side] };
+  }
+}
+
+// 对局结束：计分房间结算等级分，存档后通知，客户端可凭 gameId 打开复盘
+function finishGame(roomId) {
+  const room = rooms.get(roomId);
+  clearClockTimer(roomId);
+  if (room.settings.rated) applyRatings(room);
+  if (room.series) recordSeriesResult(room);
+  room.result.gameId = archiveGame(room);
+  persistRoom(roomId);
+  console.log('Game over!', room.result.draw ? 'It\'s a draw!' : `${room.result.winner} wins!`, 'Reason:', room.result.reason);
+  broadcastSequenced(roomId, "game_over", room.result);
+  if (room.series?.finished) io.to(roomId).emit("series_over", describeSeries(room.series));
+  clearBotTurn(roomId);
+  botNamespace.to(roomId).emit("game_over", { roomId, result: room.result, series: room.series ? describeSeries(room.series) : null });
+  broadcastRoomState(roomId);
+  scheduleUnattendedRematch(roomId);
+  if (room.tournament) recordTournamentGame(roomId);
+}
+
+// 锦标赛对局结束：记下结果并推进赛程，本轮全部结束后为下一轮开房间
+// 淘汰赛和棋不算结束，稍后交换先后手在同一房间重下
+function recordTournamentGame(roomId) {
+  const room = rooms.get(roomId);
+  const tournament = tournaments.get(room.tournament.id);
+  if (!tournament) return;
+  const { result } = room;
+  const recorded = recordMatchResult(tournament, room.tournament.matchId, {
+    winnerSide: result.winner,
+    draw: !!result.draw,
+    reason: result.reason,
+    gameId: result.gameId
+  });
+  saveTournament(recorded.tournament);
+  console.log('Tournament', tournament.id, 'match', room.tournament.matchId, recorded.replay ? 'drawn, replaying' : 'finished');
+
+  if (recorded.replay) {
+    setTimeout(() => {
+      if (rooms.get(roomId) !== room || room.result !== result) return;
+      swapSeats(roomId);
+      resetGame(roomId);
+    }, TOURNAMENT_REPLAY_DELAY_MS);
+  } else {
+    startTournamentMatches(tournament.id);
+  }
+  broadcastTournament(tournament.id);
+}
+
+// 为当前轮尚未开始的对局各开一个房间：组织者为房主，黑白两座各留一张邀请，只有组织者看得到
+function startTournamentMatches(tournamentId) {
+  let tournament = tournaments.get(tournamentId);
+  for (const match of getMatchesToStart(tournament)) {
+    let roomId = nanoid();
+    while (rooms.has(roomId)) roomId = nanoid();
+    const { boardSize, winCondition, ruleSet, opening, timeControl } = tournament.settings;
+    const room = createRoom({ playerCount: 2, winCondition, boardSize, ruleSet, opening, timeControl });
+    room.hostToken = tournament.organizerToken;
+    room.tournament = { id: tournamentId, matchId: match.id };
+    room.invites = ["black", "white"].map((seatKey) => createInvite(seatKey));
+    rooms.set(roomId, room);
+    persistRoom(roomId);
+
+    const invites = Object.fromEntries(room.invites.map((invite) => [invite.seatKey, invite.code]));
+    tournament = updateMatch(tournament, match.id, { roomId, invites });
+    console.log('Tournament', tournamentId, 'match', match.id, 'in room', roomId);
+  }
+  saveTournament(tournament);
+}
+
+function saveTournament(tournament) {
+  tournaments.set(tournament.id, tournament);
+  withStore(`save tournament ${tournament.id}`, () => store.saveTournament(tournament));
+}
+
+// 给每个订阅者推送赛况，组织者的那份带上邀请码
+function broadcastTournament(tournamentId) {
+  const tournament = tournaments.get(tournamentId);
+  const subscribers = io.sockets.adapter.rooms.get(tournamentChannel(tournamentId)) || new Set();
+  for (const socketId of subscribers) {
+    const subscriber = io.sockets.sockets.get(socketId);
+    if (!subscriber) continue;
+    const includeInvites = subscriber.data.tournamentToken === tournament.organizerToken;
+    subscriber.emit("tournament_state", describeTournament(tournament, { includeInvites }));
+  }
+}
+
+// 座位上全是电脑（外部机器人或引擎）时无人重开，系列赛的下一局稍后自动开始
+function scheduleUnattendedRematch(roomId) {
+  const room = rooms.get(roomId);
+  if (!room.series || room.series.finished) return;
+  const seats = getSeatKeys(room.settings.playerCount).map((seatKey) => room.players[seatKey]);
+  if (!seats.every((seat) => seat && seat.bot)) return;
+
+  const result = room.result;
+  setTimeout(() => {
+    if (rooms.get(roomId) !== room || room.result !== result) return;
+    console.log('Starting next series game in unattended room', roomId);
+    resetGame(roomId);
+  }, BOT_REMATCH_DELAY_MS);
+}
+
+// 系列赛记分：按座位上玩家的 id 累计，空座不计
+function recordSeriesResult(room) {
+  const players = [];
+  let winner = null;
+  for (const seatKey of getSeatKeys(room.settings.playerCount)) {
+    const seat = room.players[seatKey];
+    if (!seat) continue;
+    const side = SEAT_SIDES[seatKey];
+    const playerId = getPlayerId(seat.token);
+    const outcome = outcomeOf(room.result, side);
+    players.push({ playerId, nickname: seat.profile?.nickname, points: outcome === "win" ? 1 : outcome === "draw" ? 0.5 : 0 });
+    if (room.result.winner === side) winner = playerId;
+  }
+  if (players.length === 0) return;
+  room.series = recordSeriesGame(room.series, { players, winner, reason: room.result.reason });
+  if (room.series.finished) console.log('Series finished, winner:', room.series.winner);
+}
+
+// 系列赛中下一局前轮换座位：每人移到前一个座位，三人局中先手也随之轮转
+function rotateSeats(roomId) {
+  const room = rooms.get(roomId);
+  const seatKeys = getSeatKeys(room.settings.playerCount);
+  const seats = seatKeys.map((seatKey) => room.players[seatKey]);
+  seatKeys.forEach((seatKey, index) => {
+    clearSeatReleaseTimer(roomId, seatKey);
+    room.players[seatKey] = seats[(index + 1) % seats.length];
+  });
+
+  for (const seatKey of seatKeys) {
+    const seat = room.players[seatKey];
+    if (!seat || (seat.bot && !isExternalBot(seat))) continue;
+    if (!seat.connected) {
+      scheduleSeatRelease(roomId, seatKey);
+      continue;
+    }
+    const seatSocket = io.sockets.sockets.get(seat.socketId);
+    if (!seatSocket) continue;
+    seatSocket.data.side = SEAT_SIDES[seatKey];
+    seatSocket.emit("side_changed", { side: SEAT_SIDES[seatKey] });
+  }
+}
+
+// 离开快速匹配队列（取消、超时、匹配成功或断线）
+function leaveQueue(socket) {
+  const queueKey = socket.data.queueKey;
+  if (!queueKey) return;
+  socket.data.queueKey = null;
+  const entries = (matchQueues.get(queueKey) || []).filter((entry) => entry.socketId !== socket.id);
+  if (entries.length > 0) {
+    matchQueues.set(queueKey, entries);
+  } else {
+    matchQueues.delete(queueKey);
+  }
+  broadcastQueueStatus(queueKey);
+}
+
+// 告知队列中每个人当前排队人数与自己的位置
+function broadcastQueueStatus(queueKey) {
+  const entries = matchQueues.get(queueKey) || [];
+  entries.forEach((entry, index) => {
+    const queueSocket = io.sockets.sockets.get(entry.socketId);
+    if (!queueSocket) return;
+    queueSocket.emit("queue_status", {
+      settings: entry.settings,
+      waiting: entries.length,
+      position: index + 1,
+      since: entry.joinedAt
+    });
+  });
+}
+
+// 凑齐人数：按现有房间结构建房，为每人预留座位（顺序随机），再通知他们进入房间
+function startMatch(group) {
+  let roomId = nanoid();
+  while (rooms.has(roomId)) roomId = nanoid();
+  const room = createRoom(group[0].settings);
+  const seated = group.slice().sort(() => Math.random() - 0.5);
+  const seatKeys = getSeatKeys(room.settings.playerCount);
+  seated.forEach((entry, index) => {
+    room.players[seatKeys[index]] = { token: entry.token, socketId: null, connected: false, profile: entry.profile };
+  });
+  rooms.set(roomId, room);
+  persistRoom(roomId);
+  // 迟迟不进房间的座位按断线处理，宽限期后释放
+  seatKeys.forEach((seatKey) => scheduleSeatRelease(roomId, seatKey));
+  console.log('Quick match created room', roomId, 'for', group.length, 'players');
+
+  for (const entry of group) {
+    const queueSocket = io.sockets.sockets.get(entry.socketId);
+    if (!queueSocket) continue;
+    leaveQueue(queueSocket);
+    queueSocket.emit("match_found", { roomId, playerToken: entry.token });
+  }
+}
+
+// 处理超时并尽可能多地凑桌
+function runMatchmaking() {
+  const now = Date.now();
+  for (const queueKey of [...matchQueues.keys()]) {
+    for (const entry of matchQueues.get(queueKey) || []) {
+      if (now - entry.joinedAt < QUICK_MATCH_TIMEOUT_MS) continue;
+      const queueSocket = io.sockets.sockets.get(entry.socketId);
+      if (!queueSocket) continue;
+      leaveQueue(queueSocket);
+      queueSocket.emit("queue_timeout");
+    }
+
+    // 房间数已达上限时暂不开局，玩家继续排队
+    if (isAtRoomCapacity()) continue;
+    let group;
+    while (matchQueues.has(queueKey) && (group = findMatch(matchQueues.get(queueKey), matchQueues.get(queueKey)[0].settings, now))) {
+      startMatch(group);
+    }
+  }
+}
+
+// 落子并广播结果；真人与电脑的落子都走这里，调用方负责事先校验合法性
+function commitMove(roomId, x, y) {
+  const room = rooms.get(roomId);
+  const side = sideOfNumber(room.turn);
+
+  // 落子即视为拒绝尚未处理的悔棋请求与和棋提议
+  cancelTakeback(roomId);
+  cancelDrawOffer(roomId);
+  clearBotTurn(roomId);
+
+  // 落子到达前已超时则不再落子
+  if (!chargeClock(roomId, { endOfTurn: passesTurn(getVariant(room.settings), room.moves.length + 1) })) return;
+
+  applyMove(room, x, y);
+  if (room.opening) room.opening = advanceOpening(room.opening);
+  const { captured = [] } = room.moves[room.moves.length - 1];
+  broadcastSequenced(roomId, "piece_placed", { x, y, player: side, captured });
+
+  // 胜利或平局
+  if (room.result) {
+    finishGame(roomId);
+    return;
+  }
+
+  // 广播当前轮次与计时
+  syncClock(roomId);
+  persistRoom(roomId);
+  broadcastSequenced(roomId, "turn_changed", {
+    turn: sideOfNumber(room.turn),
+    clock: getClockPayload(room)
+  });
+  
+  // 同时发送房间状态更新
+  broadcastRoomState(roomId);
+
+  console.log('Turn changed to:', sideOfNumber(room.turn));
+  scheduleBotMove(roomId);
+}
+
+// side 一方在 (x, y) 落子是否合法，place_piece 与外部引擎共用；合法时返回 null
+// 否则返回 { reason }，规则禁手另带 forbidden: true
+function getPlacementError(room, side, x, y) {
+  if (room.result) return { reason: "game-over" };
+
+  // 轮到谁：开局阶段由开局状态决定行动座位，摆下的棋子颜色仍为 room.turn
+  const canPlace = room.opening
+    ? isPlacementPhase(room.opening) && getOpeningActor(room.opening) === seatKeyOfSide(side)
+    : room.turn === SIDE_NUMBERS[side];
+  if (!canPlace) return { reason: "not-your-turn" };
+  return getMoveError(room, x, y);
+}
+
+// 轮到电脑时稍作停顿后自动落子
+function scheduleBotMove(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || room.result || room.opening) return;
+  const seat = room.players[seatKeyOfSide(sideOfNumber(room.turn))];
+  if (!seat || !seat.bot) return;
+  if (isExternalBot(seat)) {
+    requestExternalBotMove(roomId);
+    return;
+  }
+
+  const turn = room.turn;
+  const moveCount = room.moves.length;
+  setTimeout(() => {
+    // 等待期间可能已悔棋、重开或房间已清理
+    if (rooms.get(roomId) !== room || room.result) return;
+    if (room.turn !== turn || room.moves.length !== moveCount) return;
+    if (seat.engine) {
+      requestEngineMove(roomId, seat);
+      return;
+    }
+
+    const { playerCount, winCondition, ruleSet } = room.settings;
+    const move = chooseMove(room.board, { player: turn, level: seat.bot, playerCount, winCondition, ruleSet });
+    if (!move) return;
+    console.log('Computer', sideOfNumber(turn), 'placing piece at', move.x, move.y, 'in room', roomId);
+    commitMove(roomId, move.x, move.y);
+  }, BOT_MOVE_DELAY_MS);
+}
+
+// 每个引擎座位（按令牌）对应一个引擎进程，首次轮到它时启动
+function getEngineSession(room, seat) {
+  let session = engineSessions.get(seat.token);
+  if (!session) {
+    // 配置中已删除的引擎：会话在启动时报错，由调用方判负
+    const engine = engines.get(seat.engine) || { id: seat.engine, name: seat.engine, command: "", args: [] };
+    const { boardSize, ruleSet } = room.settings;
+    session = createEngineSession(engine, { boardSize, ruleSet });
+    engineSessions.set(seat.token, session);
+  }
+  return session;
+}
+
+// 结束房间内所有引擎进程；重开时棋盘大小与规则可能已变，下次轮到时重新启动
+function stopEngineSessions(room) {
+  for (const seatKey of Object.keys(SEAT_SIDES)) {
+    const seat = room.players[seatKey];
+    if (!seat || !seat.engine || !engineSessions.has(seat.token)) continue;
+    engineSessions.get(seat.token).stop();
+    engineSessions.delete(seat.token);
+  }
+}
+
+// 请轮到的外部机器人在时限内落子：发送 your_turn，超时判负
+// 座位坐满才开始；同一步已在等待时只给（重连的）机器人补发一次局面
+function requestExternalBotMove(roomId) {
+  const room = rooms.get(roomId);
+  const seatKey = seatKeyOfSide(sideOfNumber(room.turn));
+  const moveCount = room.moves.length;
+  const pending = botTurns.get(roomId);
+  if (pending && pending.seatKey === seatKey && pending.moveCount === moveCount) {
+    sendBotTurn(roomId);
+    return;
+  }
+  clearBotTurn(roomId);
+  if (!getActiveSeatKeys(room).every((key) => room.players[key])) return;
+
+  const seat = room.players[seatKey];
+  const timer = setTimeout(() => {
+    botTurns.delete(roomId);
+    if (rooms.get(roomId) !== room || room.result || room.players[seatKey] !== seat) return;
+    console.log('Bot', seat.profile.nickname, 'missed its move deadline in room', roomId);
+    resignSide(roomId, SEAT_SIDES[seatKey], "timeout");
+  }, BOT_MOVE_DEADLINE_MS);
+  botTurns.set(roomId, { seatKey, moveCount, deadline: Date.now() + BOT_MOVE_DEADLINE_MS, timer });
+  sendBotTurn(roomId);
+}
+
+// 把完整棋盘、着法与房间设置发给正在等待的机器人；机器人断线时等它重连后补发
+function sendBotTurn(roomId) {
+  const room = rooms.get(roomId);
+  const pending = botTurns.get(roomId);
+  const seat = room.players[pending.seatKey];
+  const botSocket = seat.socketId ? botNamespace.sockets.get(seat.socketId) : null;
+  if (!botSocket) return;
+  botSocket.emit("your_turn", {
+    roomId,
+    side: SEAT_SIDES[pending.seatKey],
+    board: room.board,
+    moves: room.moves,
+    settings: room.settings,
+    clock: getClockPayload(room),
+    deadline: pending.deadline
+  });
+}
+
+// 落子、悔棋、重开、认输或房间清理后，等待中的机器人回合作废
+function clearBotTurn(roomId) {
+  const pending = botTurns.get(roomId);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  botTurns.delete(roomId);
+}
+
+// 把当前局面交给引擎，回复的着法与真人落子走同样的校验；引擎出错或给出非法着法时判其负
+function requestEngineMove(roomId, seat) {
+  const room = rooms.get(roomId);
+  const turn = room.turn;
+  const moveCount = room.moves.length;
+  const side = sideOfNumber(turn);
+  const timeLeftMs = room.clock ? getTimeLeft(room.clock, seatKeyOfSide(side), Date.now()) : undefined;
+
+  getEngineSession(room, seat).requestMove({ moves: room.moves, me: side, timeLeftMs }, (error, move) => {
+    // 思考期间可能已悔棋、重开、超时或房间已清理
+    if (rooms.get(roomId) !== room || room.result) return;
+    if (room.turn !== turn || room.moves.length !== moveCount) return;
+
+    const failure = error ? error.message : getPlacementError(room, side, move.x, move.y)?.reason;
+    if (failure) {
+      console.error('Engine', seat.engine, 'failed in room', roomId, failure);
+      engineSessions.get(seat.token)?.stop();
+      engineSessions.delete(seat.token);
+      resignSide(roomId, side, "engine-error");
+      return;
+    }
+    console.log('Engine', seat.engine, sideOfNumber(turn), 'placing piece at', move.x, move.y, 'in room', roomId);
+    commitMove(roomId, move.x, move.y);
+  });
+}
+
+// 互换两个座位上的玩家（开局选色，或房主调换座位）
+function swapSeats(roomId, a = "black", b = "white") {
+  const room = rooms.get(roomId);
+  clearSeatReleaseTimer(roomId, a);
+  clearSeatReleaseTimer(roomId, b);
+  [room.players[a], room.players[b]] = [room.players[b], room.players[a]];
+  if (room.clock) room.clock = swapClockSeats(room.clock, a, b);
+
+  for (const seatKey of [a, b]) {
+    const seat = room.players[seatKey];
+    if (!seat) continue;
+    // 断线保留中的座位按新位置重新计时
+    if (!seat.connected) {
+      scheduleSeatRelease(roomId, seatKey);
+      continue;
+    }
+    const seatSocket = io.sockets.sockets.get(seat.socketId);
+    if (!seatSocket) continue;
+    seatSocket.data.side = SEAT_SIDES[seatKey];
+    seatSocket.emit("side_changed", { side: SEAT_SIDES[seatKey] });
+  }
+}
+
+// 回退到请求者最近一步之前，轮到请求者重新落子
+function applyTakeback(roomId, acceptedBy) {
+  const room = rooms.get(roomId);
+  const requester = room.takeback.by;
+  room.takeback = null;
+  clearBotTurn(roomId);
+  // 退回到请求方最近一个回合的开始（六子棋一回合有两子）
+  let undone;
+  do {
+    undone = room.moves.pop();
+  } while (undone.player !== requester || !isTurnStart(getVariant(room.settings), room.moves.length));
+  rebuildGame(room);
+  room.turn = SIDE_NUMBERS[requester];
+  syncClock(roomId);
+  persistRoom(roomId);
+
+  console.log('Takeback accepted in room', roomId, 'turn back to', requester);
+  broadcastSequenced(roomId, "takeback_resolved", {
+    accepted: true,
+    by: acceptedBy,
+    board: room.board,
+    moves: room.moves,
+    turn: sideOfNumber(room.turn)
+  });
+  broadcastRoomState(roomId);
+}
+
+function isSeatedSide(side) {
+  return side === "black" || side === "white" || side === "green";
+}
+
+// 观战频道的消息在房间设置隐藏时只发给观战者
+function canSeeChatMessage(room, side, message) {
+  return message.channel === "players" || !room.settings.hideSpectatorChat || !isSeatedSide(side);
+}
+
+function getChatHistory(room, side) {
+  return room.chat.filter((message) => canSeeChatMessage(room, side, message));
+}
+
+// 聊天昵称：棋手用阵营名，观战者带上连接 id 前几位以示区分
+function getChatNickname(socket) {
+  if (socket.data.profile && socket.data.profile.nickname) return socket.data.profile.nickname;
+  const side = socket.data.side;
+  if (isSeatedSide(side)) return side.charAt(0).toUpperCase() + side.slice(1);
+  return `Spectator ${socket.id.slice(0, 4)}`;
+}
+
+function postChatMessage(roomId, socket, text) {
+  const room = rooms.get(roomId);
+  const side = socket.data.side;
+  const message = {
+    id: nanoid(),
+    side,
+    nickname: getChatNickname(socket),
+    color: socket.data.profile ? socket.data.profile.color : null,
+    text,
+    channel: isSeatedSide(side) ? "players" : "spectators",
+    timestamp: Date.now()
+  };
+  room.chat.push(message);
+  if (room.chat.length > CHAT_HISTORY_LIMIT) room.chat.shift();
+  persistRoom(roomId);
+
+  for (const socketId of io.sockets.adapter.rooms.get(roomId) || []) {
+    const roomSocket = io.sockets.sockets.get(socketId);
+    if (roomSocket && canSeeChatMessage(room, roomSocket.data.side, message)) {
+      roomSocket.emit("chat_message", message);
+    }
+  }
+}
+
+// 重开新局：房主直接重开，或非房主的请求得到全部棋手同意
+function resetGame(roomId) {
+  const room = rooms.get(roomId);
+  cancelTakeback(roomId);
+  room.resetRequest = null;
+  // 系列赛：上一局下完且比赛未分胜负时轮换座位；比赛已结束则重新开始一场
+  if (room.series) {
+    if (room.series.finished) {
+      room.series = createSeries(room.settings.bestOf);
+    } else if (room.result && room.series.games.length > 0) {
+      rotateSeats(roomId);
+    }
+  }
+  room.board = createEmptyBoard(room.settings.boardSize);
+  room.turn = 1;
+  room.moves = [];
+  room.result = null;
+  room.drawOffer = null;
+  room.resigned = [];
+  room.captures = { black: 0, white: 0 };
+  room.opening = createOpening(room.settings.opening);
+  room.openingMoves = 0;
+  stopEngineSessions(room);
+  clearBotTurn(roomId);
+  clearClockTimer(roomId);
+  room.clock = createClock(room.settings.timeControl, getSeatKeys(room.settings.playerCount));
+  syncClock(roomId);
+  persistRoom(roomId);
+  broadcastSequenced(roomId, "reset_done", { board: room.board, turn: "black" });
+  
+  // 同时发送房间状态更新
+  broadcastRoomState(roomId);
+  
+  console.log('Game reset, turn set to black (1)');
+  scheduleBotMove(roomId);
+}
+
+function cancelDrawOffer(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || !room.drawOffer) return;
+  room.drawOffer = null;
+  io.to(roomId).emit("draw_resolved", { accepted: false, by: null });
+}
+
+// 认输（reason 为 resignation）或断线超过宽限期弃局（abandonment）
+// 两人局直接判负；三人局中该方退出轮转、对局继续，只剩一人时由其获胜
+function resignSide(roomId, side, reason) {
+  const room = rooms.get(roomId);
+  cancelTakeback(roomId);
+  cancelDrawOffer(roomId);
+  clearBotTurn(roomId);
+  clearClockTimer(roomId);
+  if (room.clock) room.clock = stopClock(room.clock, Date.now(), { increment: false });
+  const remaining = getActiveSeatKeys(room).map((seatKey) => SEAT_SIDES[seatKey]).filter((s) => s !== side);
+  console.log('Side', side, reason === "abandonment" ? 'abandoned' : 'resigned', 'in room', roomId);
+
+  if (remaining.length === 1) {
+    room.result = { winner: remaining[0], draw: false, reason, loser: side };
+    finishGame(roomId);
+    return;
+  }
+
+  room.resigned.push(side);
+  io.to(roomId).emit("player_resigned", { side, reason });
+  if (sideOfNumber(room.turn) === side) room.turn = getNextTurn(room.turn, room.settings.playerCount, room.resigned);
+  syncClock(roomId);
+  persistRoom(roomId);
+  broadcastSequenced(roomId, "turn_changed", {
+    turn: sideOfNumber(room.turn),
+    clock: getClockPayload(room)
+  });
+  broadcastRoomState(roomId);
+  scheduleBotMove(roomId);
+}
+
+// 座位上的人变动后，待同意的重开请求作废
+function cancelResetRequest(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || !room.resetRequest) return;
+  room.resetRequest = null;
+  io.to(roomId).emit("reset_resolved", { accepted: false, by: null });
+}
+
+// 校验房间设置，合法时返回 null；创建房间与房主修改设置共用
+function getRoomSettingsError({ playerCount, winCondition, boardSize, ruleSet, opening, timeControl, rated, computer, bestOf, variant }) {
+  if (playerCount !== 2 && playerCount !== 3) return "Rooms are for 2 or 3 players";
+  if (![4, 5, 6].includes(winCondition)) return "Win condition must be 4, 5 or 6 in a row";
+  if (boardSize !== 15 && boardSize !== 19) return "Board size must be 15 or 19";
+  const ruleSetError = getRuleSetError({ ruleSet, playerCount, winCondition });
+  if (ruleSetError) return ruleSetError;
+  if (!OPENING_RULES.includes(opening)) return `Unknown opening rule "${opening}"`;
+  if (opening !== "none" && (playerCount !== 2 || computer)) return "Opening rules require 2 human players";
+  const timeControlError = getTimeControlError(timeControl);
+  if (timeControlError) return timeControlError;
+  if (rated && computer) return "Rated games are only played between humans";
+  if (computer && computer.engine) {
+    if (!engines.has(computer.engine)) return `Unknown engine "${computer.engine}"`;
+    const engineError = getEngineSettingsError({ playerCount, winCondition, variant });
+    if (engineError) return engineError;
+  }
+  if (!SERIES_LENGTHS.includes(bestOf)) return `Series length must be one of ${SERIES_LENGTHS.join(", ")} games`;
+  const variantError = getVariantError({ variant, playerCount, winCondition, ruleSet, opening });
+  if (variantError) return variantError;
+  return null;
+}
+
+// 房主可在对局之间修改的设置；电脑对手在建房时确定，不可修改
+const EDITABLE_SETTINGS = ["playerCount", "winCondition", "boardSize", "ruleSet", "opening", "timeControl", "hideSpectatorChat", "rated", "isPublic", "bestOf", "variant"];
+
+// 将 socket 移出房间（被房主踢出）：占着的座位立即释放，不再保留
+function removeFromRoom(roomId, targetSocket, { banned }) {
+  const room = rooms.get(roomId);
+  for (const seatKey of Object.keys(SEAT_SIDES)) {
+    const seat = room.players[seatKey];
+    if (seat && seat.socketId === targetSocket.id) {
+      clearSeatReleaseTimer(roomId, seatKey);
+      room.players[seatKey] = null;
+    }
+  }
+  targetSocket.leave(roomId);
+  targetSocket.data.roomId = null;
+  targetSocket.data.side = null;
+  targetSocket.emit("kicked", { roomId, banned });
+}
+
+// 进房检查，真人与外部机器人共用：被禁止的不能进；房主、原座位上的玩家与已通过验证的玩家直接进入；
+// 其余凭邀请，或在未锁定时凭密码。不能进入时返回 { error: { code, error } }
+function checkAdmission(room, token, { password, inviteCode }) {
+  const reclaimedSeat = findSeatByToken(room, token);
+  if (room.bannedTokens.includes(token)) {
+    return { error: { code: "banned", error: "You have been banned from this room" } };
+  }
+
+  const returning = token === room.hostToken || !!reclaimedSeat;
+  const admitted = returning || room.admittedTokens.includes(token);
+  let invite = null;
+  if (!admitted && inviteCode) {
+    invite = room.invites.find((candidate) => candidate.code === inviteCode && !room.players[candidate.seatKey]) || null;
+    if (!invite) return { error: { code: "invalid_invite", error: "This invite link is invalid or has already been used" } };
+  }
+  if (room.locked && !returning && !invite) {
+    return { error: { code: "locked", error: "This room is locked" } };
+  }
+  if (room.password && !admitted && !invite && !checkPassword(room.password, password)) {
+    return { error: password ? { code: "wrong_password", error: "Wrong password" } : { code: "password_required", error: "This room needs a password" } };
+  }
+  return { reclaimedSeat, admitted, invite };
+}
+
+// 外部机器人离开座位（被房主踢出或自己离开），座位立即释放
+function removeBotFromRoom(roomId, seatKey, { kicked = false, banned = false } = {}) {
+  const room = rooms.get(roomId);
+  const seat = room.players[seatKey];
+  clearSeatReleaseTimer(roomId, seatKey);
+  if (botTurns.get(roomId)?.seatKey === seatKey) clearBotTurn(roomId);
+  room.players[seatKey] = null;
+  const botSocket = seat.socketId ? botNamespace.sockets.get(seat.socketId) : null;
+  if (!botSocket) return;
+  botSocket.leave(roomId);
+  if (kicked) botSocket.emit("kicked", { roomId, banned });
+}
+
+// 落子或重开会使尚未处理的悔棋请求失效
+function cancelTakeback(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || !room.takeback) return;
+  room.takeback = null;
+  broadcastSequenced(roomId, "takeback_resolved", { accepted: false, by: null });
+}
+
+// 房间里既没有连接、也没有保留中的座位时才清理
+function deleteRoomIfAbandoned(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const roomSockets = io.sockets.adapter.rooms.get(roomId);
+  if (roomSockets && roomSockets.size > 0) return;
+  // 锦标赛对局在下完之前一直保留，等双方到齐
+  if (room.tournament && !room.result) return;
+  const hasReservedSeat = Object.keys(SEAT_SIDES).some((seatKey) => {
+    const seat = room.players[seatKey];
+    return seat && (!seat.bot || isExternalBot(seat));
+  });
+  if (hasReservedSeat) return;
+
+  clearClockTimer(roomId);
+  stopEngineSessions(room);
+  clearBotTurn(roomId);
+  rooms.delete(roomId);
+  withStore(`delete room ${roomId}`, () => store.deleteRoom(roomId));
+  if (room.settings.isPublic) scheduleLobbyUpdate();
+  console.log('Room', roomId, 'deleted');
+}
 
-// 内存中的房间数据：不持久化，服务重启就清空
-// 结构： rooms[roomId] = { players: { black: socketId|null, white: socketId|null, third: socketId|null }, board, turn, settings }
-const rooms = new Map();
+// 请求体校验：不合格时返回 400 与可读的错误说明
+function validateBody(schema) {
+  return (req, res, next) => {
+    const error = validate(schema, req.body);
+    if (error) return res.status(400).json({ error, code: "invalid_payload" });
+    next();
+  };
+}
 
-function createEmptyBoard(size = 15) {
-  return Array.from({ length: size }, () => Array(size).fill(0)); // 0空，1黑，2白，3第三玩家
+// 按 IP 限流，超出时返回 429 与 Retry-After
+function limitByIp(limiter) {
+  return (req, res, next) => {
+    if (limiter.hit(req.ip)) return next();
+    res.set("Retry-After", String(Math.ceil(limiter.retryAfterMs(req.ip) / 1000)));
+    res.status(429).json({ error: "Too many requests, try again later", code: "rate_limited" });
+  };
 }
 
-function getOppositeTurn(turn, playerCount = 2) {
-  if (playerCount === 2) {
-    return turn === 1 ? 2 : 1;
-  } else {
-    return turn === 1 ? 2 : turn === 2 ? 3 : 1;
-  }
+function isAtRoomCapacity() {
+  return rooms.size >= MAX_ROOMS;
 }
 
-function inBounds(x, y, size = 15) {
-  return x >= 0 && x < size && y >= 0 && y < size;
+// 房间数已达上限时拒绝新建
+function requireRoomCapacity(req, res, next) {
+  if (!isAtRoomCapacity()) return next();
+  res.status(503).json({ error: "The server has too many rooms right now, try again later", code: "server_full" });
 }
 
-// 简单五连检测：从落子点向4个方向数连续同色
-function checkWin(board, x, y, winCondition = 5) {
-  const target = board[y][x];
-  if (target === 0) return false;
+// 创建房间：返回 roomId
+app.post("/api/create-room", limitByIp(rateLimiters.createRoom), validateBody(REQUEST_SCHEMAS.createRoom), requireRoomCapacity, (req, res) => {
+  let roomId = nanoid();
+  while (rooms.has(roomId)) roomId = nanoid();
+
+  // 获取游戏设置，使用默认值
+  const {
+    playerCount = 2,
+    winCondition = 5,
+    boardSize = 15,
+    ruleSet = "freestyle",
+    opening = "none",
+    timeControl = null,
+    hideSpectatorChat = false,
+    rated = false,
+    computer = null,
+    isPublic = false,
+    bestOf = 1,
+    variant = "gomoku",
+    password,
+    playerToken
+  } = req.body;
+  const settingsError = getRoomSettingsError({ playerCount, winCondition, boardSize, ruleSet, opening, timeControl, rated, computer, bestOf, variant });
+  if (settingsError) return res.status(400).json({ error: settingsError, code: "invalid_payload" });
+  const passwordError = getPasswordError(password);
+  if (passwordError) return res.status(400).json({ error: passwordError, code: "invalid_payload" });
 
-  const dirs = [
-    [1, 0],  // 横
-    [0, 1],  // 竖
-    [1, 1],  // 斜 \
-    [1, -1], // 斜 /
-  ];
+  // 建房者即房主；还没有令牌的新玩家由这里签发
+  const token = typeof playerToken === "string" && playerToken ? playerToken : generatePlayerToken();
+  const room = createRoom({
+    playerCount,
+    winCondition,
+    boardSize,
+    ruleSet,
+    opening,
+    timeControl: normalizeTimeControl(timeControl),
+    hideSpectatorChat: !!hideSpectatorChat,
+    rated: !!rated,
+    computer: normalizeComputerSetting(computer, playerCount),
+    isPublic: !!isPublic,
+    bestOf,
+    variant
+  });
+  room.hostToken = token;
+  if (password) room.password = hashPassword(password);
+  rooms.set(roomId, room);
+  persistRoom(roomId);
+  if (isPublic) scheduleLobbyUpdate();
 
-  for (const [dx, dy] of dirs) {
-    let count = 1;
+  res.json({ roomId, playerToken: token });
+});
 
-    // 正向
-    let nx = x + dx, ny = y + dy;
-    while (inBounds(nx, ny, board.length) && board[ny][nx] === target) {
-      count++; nx += dx; ny += dy;
-    }
-    // 反向
-    nx = x - dx; ny = y - dy;
-    while (inBounds(nx, ny, board.length) && board[ny][nx] === target) {
-      count++; nx -= dx; ny -= dy;
-    }
-    if (count >= winCondition) return true;
+// 可选的外部引擎，只公开 id 与名称
+app.get("/api/engines", (req, res) => {
+  res.json({ engines: [...engines.values()].map(({ id, name }) => ({ id, name })) });
+});
+
+// 注册外部机器人：body = { name }，返回 { botId, name, token }，令牌只在这里给出一次
+app.post("/api/bots", limitByIp(rateLimiters.registerBot), validateBody(REQUEST_SCHEMAS.registerBot), (req, res) => {
+  const nameError = getBotNameError(req.body.name, [...botAccounts.values()]);
+  if (nameError) return res.status(400).json({ error: nameError, code: "invalid_payload" });
+
+  const { account, token } = createBotAccount(req.body.name);
+  botAccounts.set(account.id, account);
+  withStore(`save bot ${account.id}`, () => store.saveBot(account));
+  console.log('Registered bot', account.name, account.id);
+  res.json({ botId: account.id, name: account.name, token });
+});
+
+// 创建锦标赛：body = { name, format, participants, boardSize?, winCondition?, ruleSet?, opening?, timeControl?, playerToken? }
+// 建好后立即为第一轮开房间；返回 tournamentId 与组织者令牌
+app.post("/api/tournaments", limitByIp(rateLimiters.createRoom), validateBody(REQUEST_SCHEMAS.createTournament), (req, res) => {
+  const {
+    name,
+    format,
+    participants,
+    boardSize = 15,
+    winCondition = 5,
+    ruleSet = "freestyle",
+    opening = "none",
+    timeControl = null,
+    playerToken
+  } = req.body;
+  const tournamentError = getTournamentError({ name, format, participants });
+  if (tournamentError) return res.status(400).json({ error: tournamentError, code: "invalid_payload" });
+  const settingsError = getRoomSettingsError({ playerCount: 2, winCondition, boardSize, ruleSet, opening, timeControl, rated: false, computer: null, bestOf: 1, variant: "gomoku" });
+  if (settingsError) return res.status(400).json({ error: settingsError, code: "invalid_payload" });
+  // 第一轮最多 participants / 2 个房间
+  if (rooms.size + Math.ceil(participants.length / 2) > MAX_ROOMS) {
+    return res.status(503).json({ error: "The server has too many rooms right now, try again later", code: "server_full" });
   }
-  return false;
-}
 
-// 检查是否平局：棋盘是否已满
-function checkDraw(board) {
-  for (let y = 0; y < board.length; y++) {
-    for (let x = 0; x < board[y].length; x++) {
-      if (board[y][x] === 0) {
-        return false; // 还有空位，不是平局
-      }
-    }
+  const token = typeof playerToken === "string" && playerToken ? playerToken : generatePlayerToken();
+  const tournament = createTournament({
+    name,
+    format,
+    participants,
+    settings: { boardSize, winCondition, ruleSet, opening, timeControl: normalizeTimeControl(timeControl) },
+    organizerToken: token
+  });
+  saveTournament(tournament);
+  startTournamentMatches(tournament.id);
+  console.log('Created', format, 'tournament', tournament.id, 'with', participants.length, 'participants');
+  res.json({ tournamentId: tournament.id, playerToken: token });
+});
+
+// 赛况：积分、各轮对阵与房间；带上组织者令牌时附带各座位的邀请码
+app.get("/api/tournaments/:tournamentId", (req, res) => {
+  const tournament = tournaments.get(req.params.tournamentId);
+  if (!tournament) return res.status(404).json({ error: "Tournament not found" });
+  const includeInvites = typeof req.query.playerToken === "string" && req.query.playerToken === tournament.organizerToken;
+  res.json(describeTournament(tournament, { includeInvites }));
+});
+
+// 大厅：公开房间列表，实时更新通过 Socket 的 lobby_subscribe 获取
+app.get("/api/rooms", (req, res) => {
+  res.json(getLobbyRooms());
+});
+
+// 从上传的棋谱创建房间：body = { record, format? }，format 缺省时自动识别
+app.post("/api/import-game", limitByIp(rateLimiters.createRoom), validateBody(REQUEST_SCHEMAS.importGame), requireRoomCapacity, (req, res) => {
+  const { record, format, playerToken } = req.body;
+  if (format !== undefined && !RECORD_FORMATS[format]) {
+    return res.status(400).json({ error: `Unknown record format "${format}"`, code: "invalid_payload" });
   }
-  return true; // 棋盘已满，平局
-}
 
-// 创建房间：返回 roomId
-app.post("/api/create-room", (req, res) => {
+  let room;
+  try {
+    const game = parseRecord(record, format);
+    room = createRoom(game.settings);
+    replayMoves(room, game.moves);
+  } catch (error) {
+    return res.status(400).json({ error: error.message, code: "invalid_payload" });
+  }
+  if (room.result) room.result.gameId = archiveGame(room);
+  const token = typeof playerToken === "string" && playerToken ? playerToken : generatePlayerToken();
+  room.hostToken = token;
+
   let roomId = nanoid();
   while (rooms.has(roomId)) roomId = nanoid();
+  rooms.set(roomId, room);
+  persistRoom(roomId);
+  console.log('Imported game into room', roomId, 'with', room.moves.length, 'moves');
 
-  // 获取游戏设置，使用默认值
-  const { playerCount = 2, winCondition = 5, boardSize = 15 } = req.body;
+  res.json({ roomId, playerToken: token });
+});
 
-  rooms.set(roomId, {
-    players: { 
-      black: null, 
-      white: null, 
-      third: playerCount === 3 ? null : undefined 
-    },
-    board: createEmptyBoard(boardSize),
-    turn: 1, // 1黑先手，2白，3第三玩家
-    settings: {
-      playerCount,
-      winCondition,
-      boardSize
-    }
-  });
+// 等级分排行榜：只列出下过计分对局的玩家
+app.get("/api/leaderboard", (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+  const players = [...playerRecords.values()]
+    .filter((player) => player.games > 0)
+    .sort((a, b) => b.rating - a.rating || b.games - a.games)
+    .slice(0, limit);
+  res.json({ players });
+});
+
+// 单个玩家的等级分与战绩
+app.get("/api/players/:playerId", (req, res) => {
+  const player = playerRecords.get(req.params.playerId);
+  if (!player) return res.status(404).json({ error: "Player not found" });
+  res.json(player);
+});
+
+// 获取已结束对局，用于复盘
+app.get("/api/games/:gameId", (req, res) => {
+  const game = games.get(req.params.gameId);
+  if (!game) return res.status(404).json({ error: "Game not found" });
+  res.json(game);
+});
+
+// 下载已结束对局的棋谱
+app.get("/api/games/:gameId/record", (req, res) => {
+  const game = games.get(req.params.gameId);
+  if (!game) return res.status(404).json({ error: "Game not found" });
+  sendRecord(res, game, req.query.format, `gomoku-${game.id}`);
+});
+
+// 下载房间当前对局的棋谱
+app.get("/api/rooms/:roomId/record", (req, res) => {
+  const room = rooms.get(req.params.roomId);
+  if (!room) return res.status(404).json({ error: "Room not found" });
 
-  res.json({ roomId });
+  sendRecord(res, room, req.query.format, `gomoku-${req.params.roomId}`);
 });
 
+function sendRecord(res, game, format = "coordinates", filename) {
+  const recordFormat = RECORD_FORMATS[format];
+  if (!recordFormat) return res.status(400).json({ error: `Unknown record format "${format}"`, code: "invalid_payload" });
+
+  res.type(recordFormat.contentType);
+  res.attachment(`${filename}.${recordFormat.extension}`);
+  res.send(formatRecord(game, format));
+}
+
 
 
 // Socket 逻辑
+// 每个事件先过限流与负载校验，不合格的直接丢弃并回复 request_error
+function guardEvents(socket, schemas) {
+  const ip = getSocketIp(socket);
+  socket.use(([event, payload], next) => {
+    const reject = (code, error) => socket.emit("request_error", { event, code, error });
+    if (!rateLimiters.events.hit(socket.id)) return reject("rate_limited", "Too many requests, slow down");
+    const schema = schemas[event];
+    if (!schema) return reject("unknown_event", `Unknown event "${event}"`);
+    const error = validate(schema, payload);
+    if (error) return reject("invalid_payload", error);
+    for (const { limiter, by } of EVENT_RATE_LIMITS[event] || []) {
+      if (!rateLimiters[limiter].hit(by === "ip" ? ip : socket.id)) return reject("rate_limited", "Too many requests, slow down");
+    }
+    next();
+  });
+}
+
 io.on("connection", (socket) => {
   console.log('New client connected:', socket.id);
+  guardEvents(socket, EVENT_SCHEMAS);
 
   // 加入房间
-  socket.on("join_room", ({ roomId }) => {
+  // protocolVersion 为客户端的协议版本；版本不同仍可加入，joined 中带回服务器的版本，由客户端决定如何同步
+  socket.on("join_room", ({ roomId, playerToken, nickname, color, password, invite: inviteCode, protocolVersion }) => {
     console.log('Client', socket.id, 'joining room:', roomId);
-    if (!roomId) return;
-
-    // 如果房间不存在（比如别人直接访问链接），自动创建
-    if (!rooms.has(roomId)) {
-      console.log('Creating new room:', roomId);
-      rooms.set(roomId, {
-        players: { black: null, white: null },
-        board: createEmptyBoard(15),
-        turn: 1,
-        settings: {
-          playerCount: 2,
-          winCondition: 5,
-          boardSize: 15
-        }
-      });
+    if (!roomId || roomId === LOBBY_CHANNEL) return;
+    if (protocolVersion !== undefined && protocolVersion !== PROTOCOL_VERSION) {
+      console.log('Client', socket.id, 'uses protocol version', protocolVersion, 'server uses', PROTOCOL_VERSION);
     }
 
+    // 房间只能通过创建接口、快速匹配或导入产生，输错房间号不会再凭空建出空房间
     const room = rooms.get(roomId);
+    if (!room) {
+      socket.emit("join_error", { roomId, code: "not_found", error: "Room not found" });
+      return;
+    }
+
+    const token = typeof playerToken === "string" && playerToken ? playerToken : generatePlayerToken();
     const { playerCount } = room.settings;
+    const profile = normalizeProfile({ nickname, color });
+    const admission = checkAdmission(room, token, { password, inviteCode });
+    if (admission.error) {
+      socket.emit("join_error", { roomId, ...admission.error });
+      return;
+    }
+    const { reclaimedSeat, admitted, invite } = admission;
+    // 单个房间的连接数上限；座位上的玩家与持邀请者总能进入
+    const roomSockets = io.sockets.adapter.rooms.get(roomId);
+    if (!reclaimedSeat && !invite && roomSockets && roomSockets.size >= MAX_SOCKETS_PER_ROOM && !roomSockets.has(socket.id)) {
+      socket.emit("join_error", { roomId, code: "room_full", error: "This room is full" });
+      return;
+    }
+    if (!admitted && (room.password || invite)) room.admittedTokens.push(token);
 
-    // 分配阵营：先来黑，后到白，第三个是第三玩家或观战
+    // 分配阵营：持有令牌的玩家优先找回原座位；持邀请的玩家坐进邀请的座位；
+    // 否则先来黑，后到白，第三个是第三玩家或观战（为邀请保留的座位跳过）
     let side = "spectator";
-    if (!room.players.black) {
-      room.players.black = socket.id;
+    if (invite) {
+      room.invites = room.invites.filter((candidate) => candidate !== invite);
+      room.players[invite.seatKey] = createSeat(token, socket.id, profile);
+      side = SEAT_SIDES[invite.seatKey];
+      console.log('Client', socket.id, 'used invite for', invite.seatKey);
+    } else if (reclaimedSeat) {
+      const seat = room.players[reclaimedSeat];
+      clearSeatReleaseTimer(roomId, reclaimedSeat);
+      // 刷新时新连接可能先于旧连接断开到达，旧连接降为观战
+      if (seat.socketId && seat.socketId !== socket.id) {
+        const previousSocket = io.sockets.sockets.get(seat.socketId);
+        if (previousSocket) previousSocket.data.side = "spectator";
+      }
+      seat.socketId = socket.id;
+      seat.connected = true;
+      seat.profile = profile;
+      side = SEAT_SIDES[reclaimedSeat];
+      console.log('Client', socket.id, 'reclaimed seat', reclaimedSeat);
+    } else if (isOpenSeat(room, "black")) {
+      room.players.black = createSeat(token, socket.id, profile);
       side = "black";
       console.log('Client', socket.id, 'assigned as black');
-    } else if (!room.players.white) {
-      room.players.white = socket.id;
+    } else if (isOpenSeat(room, "white")) {
+      room.players.white = createSeat(token, socket.id, profile);
       side = "white";
       console.log('Client', socket.id, 'assigned as white');
-    } else if (playerCount === 3 && !room.players.third) {
-      room.players.third = socket.id;
+    } else if (playerCount === 3 && isOpenSeat(room, "third")) {
+      room.players.third = createSeat(token, socket.id, profile);
       side = "green";
       console.log('Client', socket.id, 'assigned as green player');
     } else {
@@ -223,165 +1918,629 @@ io.on("connection", (socket) => {
     socket.join(roomId);
     socket.data.roomId = roomId;
     socket.data.side = side;
+    socket.data.profile = profile;
+    socket.data.playerToken = token;
+
+    // 座位坐满后开始计时
+    syncClock(roomId);
 
     // 通知本人加入结果
     socket.emit("joined", {
-      roomId,
+      ...getRoomSnapshot(roomId, room),
       side,
-      turn: room.turn,
-      board: room.board,
-      settings: room.settings
+      playerToken: token,
+      playerId: getPlayerId(token),
+      chat: getChatHistory(room, side)
     });
+    persistRoom(roomId);
 
     // 通知房间内所有人当前状态
-    io.to(roomId).emit("room_state", {
-      players: {
-        black: !!room.players.black,
-        white: !!room.players.white,
-        third: playerCount === 3 ? !!room.players.third : undefined
-      },
-      turn: room.turn,
-      settings: room.settings
-    });
+    broadcastRoomState(roomId);
+
+    // 座位坐满后，轮到的外部机器人开始思考
+    if (isExternalBot(room.players[getActingSeat(room)])) scheduleBotMove(roomId);
 
     console.log('Room', roomId, 'players:', room.players);
     console.log('Current turn:', room.turn);
     console.log('Settings:', room.settings);
   });
 
-  // 获取房间状态
+  // 客户端校时：原样带回客户端发送时刻，附上服务器时间，客户端据往返时间估算时差
+  socket.on("clock_sync", ({ clientTime }) => {
+    socket.emit("clock_sync", { clientTime, serverTime: Date.now() });
+  });
+
+  // 发送聊天消息：棋手发到棋手频道，观战者发到观战频道
+  socket.on("send_chat", ({ roomId, text }) => {
+    const room = rooms.get(roomId);
+    if (!room || socket.data.roomId !== roomId) return;
+    if (typeof text !== "string") return;
+    const trimmed = text.trim().slice(0, CHAT_MAX_LENGTH);
+    if (!trimmed) return;
+
+    postChatMessage(roomId, socket, trimmed);
+  });
+
+  // 订阅大厅：立即收到一次完整列表，之后公开房间有变化时推送 lobby_rooms
+  socket.on("lobby_subscribe", () => {
+    socket.join(LOBBY_CHANNEL);
+    socket.emit("lobby_rooms", getLobbyRooms());
+  });
+
+  socket.on("lobby_unsubscribe", () => {
+    socket.leave(LOBBY_CHANNEL);
+  });
+
+  // 订阅赛况：立即收到一次 tournament_state，之后每有结果推送；组织者凭令牌另外看到邀请码
+  socket.on("tournament_subscribe", ({ tournamentId, playerToken }) => {
+    const tournament = tournaments.get(tournamentId);
+    if (!tournament) {
+      socket.emit("tournament_error", { tournamentId, error: "Tournament not found" });
+      return;
+    }
+    socket.data.tournamentToken = playerToken || null;
+    socket.join(tournamentChannel(tournamentId));
+    const includeInvites = !!playerToken && playerToken === tournament.organizerToken;
+    socket.emit("tournament_state", describeTournament(tournament, { includeInvites }));
+  });
+
+  socket.on("tournament_unsubscribe", ({ tournamentId }) => {
+    socket.leave(tournamentChannel(tournamentId));
+  });
+
+  // 加入快速匹配：settings 取 { playerCount, winCondition, boardSize, rated }
+  socket.on("queue_join", ({ settings, playerToken, nickname, color }) => {
+    const queueSettings = normalizeQueueSettings(settings);
+    if (!queueSettings) {
+      socket.emit("queue_error", { error: "Unsupported quick match settings" });
+      return;
+    }
+    leaveQueue(socket);
+
+    const token = typeof playerToken === "string" && playerToken ? playerToken : generatePlayerToken();
+    const queueKey = getQueueKey(queueSettings);
+    // 同一玩家换了标签页重新排队时，替换旧的排队记录
+    const entries = (matchQueues.get(queueKey) || []).filter((entry) => entry.token !== token);
+    entries.push({
+      socketId: socket.id,
+      token,
+      profile: normalizeProfile({ nickname, color }),
+      rating: getPlayerRating(token),
+      settings: queueSettings,
+      joinedAt: Date.now()
+    });
+    matchQueues.set(queueKey, entries);
+    socket.data.queueKey = queueKey;
+    console.log('Client', socket.id, 'joined quick match queue', queueKey);
+
+    broadcastQueueStatus(queueKey);
+    runMatchmaking();
+  });
+
+  socket.on("queue_leave", () => {
+    leaveQueue(socket);
+  });
+
+  // 请求完整快照：客户端发现状态序号不连续或协议版本不一致时重新同步；拿不到快照时回复 request_error
   socket.on("get_room_state", ({ roomId }) => {
     console.log('Client', socket.id, 'requesting room state for:', roomId);
+    const reject = (code, error) => socket.emit("request_error", { event: "get_room_state", code, error });
     const room = rooms.get(roomId);
-    if (!room) return;
+    if (!room) return reject("not_found", "Room not found");
+    if (socket.data.roomId !== roomId) return reject("not_in_room", "Join the room first");
 
-    socket.emit("room_state", {
-      players: {
-        black: !!room.players.black,
-        white: !!room.players.white,
-      },
-      turn: room.turn,
-    });
+    socket.emit("state_snapshot", getRoomSnapshot(roomId, room));
   });
 
   // 下子
   socket.on("place_piece", ({ roomId, x, y }) => {
     console.log('Client', socket.id, 'placing piece at', x, y, 'in room', roomId);
+    // 被拒的落子都告知落子方原因，客户端据此撤下先行显示的棋子
+    const reject = (reason) => socket.emit("move_rejected", { x, y, reason });
     const room = rooms.get(roomId);
-    if (!room) return;
+    if (!room || socket.data.roomId !== roomId) return reject("not-in-room");
 
     // 只有落到棋手才允许下子
     const side = socket.data.side;
     if (side !== "black" && side !== "white" && side !== "green") {
       console.log('Client', socket.id, 'is spectator, cannot place piece');
-      return;
+      return reject("not-seated");
+    }
+
+    const placementError = getPlacementError(room, side, x, y);
+    if (placementError) {
+      console.log('Client', socket.id, 'cannot place at', x, y, placementError.reason);
+      return reject(placementError.reason);
     }
 
-    const playerNum = side === "black" ? 1 : side === "white" ? 2 : 3;
+    console.log('Valid move by', socket.id, 'placing', side, 'at', x, y);
+
+    // 落子
+    commitMove(roomId, x, y);
+  });
+
+  // 重开一局
+  // 重开新局：房主直接重开；其余棋手发起请求，需其余所有在座真人棋手同意；观战者不能重开
+  socket.on("reset_game", ({ roomId }) => {
+    console.log('Client', socket.id, 'resetting game for room:', roomId);
+    const room = rooms.get(roomId);
+    if (!room || socket.data.roomId !== roomId) return;
+    // 锦标赛对局只下一局，由赛程决定是否重下
+    if (room.tournament) {
+      socket.emit("request_error", { event: "reset_game", code: "tournament_room", error: "Tournament games cannot be restarted" });
+      return;
+    }
+    if (isHost(socket, room)) {
+      resetGame(roomId);
+      return;
+    }
 
-    // 轮到谁
-    if (room.turn !== playerNum) {
-      console.log('Not client', socket.id, 'turn. Current turn:', room.turn, 'Client player:', playerNum);
+    const side = socket.data.side;
+    if (!SIDE_NUMBERS[side] || room.resetRequest) return;
+    const responders = Object.keys(SEAT_SIDES)
+      .filter((seatKey) => room.players[seatKey] && !room.players[seatKey].bot && SEAT_SIDES[seatKey] !== side)
+      .map((seatKey) => SEAT_SIDES[seatKey]);
+    if (responders.length === 0) {
+      resetGame(roomId);
       return;
     }
 
-    // 合法性
-    if (!inBounds(x, y, room.settings.boardSize)) return;
-    if (room.board[y][x] !== 0) return;
+    room.resetRequest = { by: side, pending: responders };
+    console.log('Client', socket.id, 'requested reset as', side);
+    io.to(roomId).emit("reset_requested", { by: side });
+    broadcastRoomState(roomId);
+  });
 
-    console.log('Valid move by', socket.id, 'placing', side, 'at', x, y);
+  // 回应重开请求
+  socket.on("respond_reset", ({ roomId, accept }) => {
+    const room = rooms.get(roomId);
+    if (!room || !room.resetRequest || socket.data.roomId !== roomId) return;
 
-    // 落子
-    room.board[y][x] = playerNum;
+    const side = socket.data.side;
+    if (!room.resetRequest.pending.includes(side)) return;
+
+    if (!accept) {
+      room.resetRequest = null;
+      io.to(roomId).emit("reset_resolved", { accepted: false, by: side });
+      broadcastRoomState(roomId);
+      return;
+    }
 
-    // 是否胜利
-    if (checkWin(room.board, x, y, room.settings.winCondition)) {
-      console.log('Game over!', side, 'wins!');
-      io.to(roomId).emit("piece_placed", { x, y, player: side });
-      io.to(roomId).emit("game_over", { winner: side });
+    room.resetRequest.pending = room.resetRequest.pending.filter((s) => s !== side);
+    if (room.resetRequest.pending.length > 0) {
+      broadcastRoomState(roomId);
       return;
     }
+    io.to(roomId).emit("reset_resolved", { accepted: true, by: side });
+    resetGame(roomId);
+  });
+
+  // 认输：对局进行中的在座棋手均可认输
+  socket.on("resign", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    if (!room || room.result || socket.data.roomId !== roomId) return;
+    const side = socket.data.side;
+    if (!SIDE_NUMBERS[side] || room.resigned.includes(side)) return;
+    resignSide(roomId, side, "resignation");
+  });
+
+  // 提议和棋：需其余仍在轮转中的真人棋手全部同意；有电脑对手时电脑总是拒绝
+  socket.on("offer_draw", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    if (!room || room.result || room.drawOffer || socket.data.roomId !== roomId) return;
+    const side = socket.data.side;
+    if (!SIDE_NUMBERS[side] || room.resigned.includes(side)) return;
 
-    // 检查是否平局
-    if (checkDraw(room.board)) {
-      console.log('Game over! It\'s a draw!');
-      io.to(roomId).emit("piece_placed", { x, y, player: side });
-      io.to(roomId).emit("game_over", { winner: null, draw: true });
+    const others = getActiveSeatKeys(room).filter((seatKey) => SEAT_SIDES[seatKey] !== side && room.players[seatKey]);
+    const botSeat = others.find((seatKey) => room.players[seatKey].bot);
+    if (botSeat) {
+      socket.emit("draw_resolved", { accepted: false, by: SEAT_SIDES[botSeat] });
       return;
     }
+    if (others.length === 0) return;
 
-    // 切换回合
-    room.turn = getOppositeTurn(room.turn, room.settings.playerCount);
+    room.drawOffer = { by: side, pending: others.map((seatKey) => SEAT_SIDES[seatKey]) };
+    console.log('Client', socket.id, 'offered a draw as', side);
+    io.to(roomId).emit("draw_offered", { by: side });
+    broadcastRoomState(roomId);
+  });
 
-    // 广播落子 & 当前轮次
-    io.to(roomId).emit("piece_placed", { x, y, player: side });
-    io.to(roomId).emit("turn_changed", {
-      turn: room.turn === 1 ? "black" : room.turn === 2 ? "white" : "green",
-    });
-    
-    // 同时发送房间状态更新
-    io.to(roomId).emit("room_state", {
-      players: {
-        black: !!room.players.black,
-        white: !!room.players.white,
-        third: room.settings.playerCount === 3 ? !!room.players.third : undefined
-      },
-      turn: room.turn,
-      settings: room.settings
-    });
+  // 回应和棋提议
+  socket.on("respond_draw", ({ roomId, accept }) => {
+    const room = rooms.get(roomId);
+    if (!room || !room.drawOffer || room.result || socket.data.roomId !== roomId) return;
+
+    const side = socket.data.side;
+    if (!room.drawOffer.pending.includes(side)) return;
 
-    console.log('Turn changed to:', room.turn === 1 ? 'black' : room.turn === 2 ? 'white' : 'green');
-    console.log('Room state sent to all players');
+    if (!accept) {
+      room.drawOffer = null;
+      io.to(roomId).emit("draw_resolved", { accepted: false, by: side });
+      broadcastRoomState(roomId);
+      return;
+    }
+
+    room.drawOffer.pending = room.drawOffer.pending.filter((s) => s !== side);
+    if (room.drawOffer.pending.length > 0) {
+      broadcastRoomState(roomId);
+      return;
+    }
+    room.drawOffer = null;
+    io.to(roomId).emit("draw_resolved", { accepted: true, by: side });
+    cancelTakeback(roomId);
+    room.clock = room.clock && stopClock(room.clock, Date.now(), { increment: false });
+    room.result = { winner: null, draw: true, reason: "agreed-draw" };
+    finishGame(roomId);
   });
 
-  // 重开一局
-  socket.on("reset_game", ({ roomId }) => {
-    console.log('Client', socket.id, 'resetting game for room:', roomId);
+  // 以下为房主操作，拒绝时回 host_error
+  const getHostedRoom = (roomId) => {
     const room = rooms.get(roomId);
+    if (!room || socket.data.roomId !== roomId) return null;
+    if (!isHost(socket, room)) {
+      socket.emit("host_error", { error: "Only the host can do that" });
+      return null;
+    }
+    return room;
+  };
+
+  // 踢出：target 为 { seatKey }（含断线保留中的座位）或 { socketId }（观战者）；ban 为 true 时禁止其令牌再进入
+  socket.on("kick", ({ roomId, target = {}, ban = false }) => {
+    const room = getHostedRoom(roomId);
     if (!room) return;
-    room.board = createEmptyBoard(room.settings.boardSize);
-    room.turn = 1;
-    io.to(roomId).emit("reset_done", { board: room.board, turn: "black" });
-    
-    // 同时发送房间状态更新
-    io.to(roomId).emit("room_state", {
-      players: {
-        black: !!room.players.black,
-        white: !!room.players.white,
-        third: room.settings.playerCount === 3 ? !!room.players.third : undefined
-      },
-      turn: room.turn,
-      settings: room.settings
-    });
-    
-    console.log('Game reset, turn set to black (1)');
+
+    let token = null;
+    let targetSocket = null;
+    if (target.seatKey) {
+      const seat = getSeatKeys(room.settings.playerCount).includes(target.seatKey) ? room.players[target.seatKey] : null;
+      if (!seat || (seat.bot && !isExternalBot(seat))) return socket.emit("host_error", { error: "No player in that seat" });
+      token = seat.token;
+      if (isExternalBot(seat)) {
+        removeBotFromRoom(roomId, target.seatKey, { kicked: true, banned: !!ban });
+      } else {
+        targetSocket = seat.socketId ? io.sockets.sockets.get(seat.socketId) : null;
+        if (!targetSocket) {
+          clearSeatReleaseTimer(roomId, target.seatKey);
+          room.players[target.seatKey] = null;
+        }
+      }
+    } else {
+      targetSocket = io.sockets.sockets.get(target.socketId);
+      if (!targetSocket || targetSocket.data.roomId !== roomId) return socket.emit("host_error", { error: "That spectator has left" });
+      token = targetSocket.data.playerToken;
+    }
+    if (token === room.hostToken) return socket.emit("host_error", { error: "You cannot kick yourself" });
+
+    if (ban && token && !room.bannedTokens.includes(token)) room.bannedTokens.push(token);
+    // 被踢出的玩家再回来需要重新输入密码
+    room.admittedTokens = room.admittedTokens.filter((admittedToken) => admittedToken !== token);
+    if (targetSocket) removeFromRoom(roomId, targetSocket, { banned: !!ban });
+    console.log('Host', socket.id, ban ? 'banned' : 'kicked', target, 'from room', roomId);
+
+    cancelTakeback(roomId);
+    cancelResetRequest(roomId);
+    syncClock(roomId);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  // 为空座位签发一次性邀请（同一座位的旧邀请作废），邀请码只发给房主
+  socket.on("create_invite", ({ roomId, seatKey }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    if (!getSeatKeys(room.settings.playerCount).includes(seatKey) || room.players[seatKey]) {
+      return socket.emit("host_error", { error: "That seat is not free" });
+    }
+    const invite = createInvite(seatKey);
+    room.invites = [...room.invites.filter((candidate) => candidate.seatKey !== seatKey), invite];
+    console.log('Host', socket.id, 'created invite for', seatKey, 'in room', roomId);
+    socket.emit("invite_created", { seatKey, code: invite.code });
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  socket.on("revoke_invite", ({ roomId, seatKey }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    room.invites = room.invites.filter((invite) => invite.seatKey !== seatKey);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  // 设置或清除房间密码；已在房间里的人不受影响
+  socket.on("set_password", ({ roomId, password }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    const passwordError = getPasswordError(password);
+    if (passwordError) return socket.emit("host_error", { error: passwordError });
+    room.password = password ? hashPassword(password) : null;
+    console.log('Room', roomId, password ? 'password set' : 'password removed');
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  // 锁定后不再接受新的玩家或观战者
+  socket.on("lock_room", ({ roomId, locked }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    room.locked = !!locked;
+    console.log('Room', roomId, locked ? 'locked' : 'unlocked');
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  // 修改设置：只在对局之间，修改后立即按新设置开新局
+  socket.on("update_settings", ({ roomId, settings = {} }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    if (room.tournament) return socket.emit("host_error", { error: "Tournament rooms keep the tournament settings" });
+    if (isGameInProgress(room)) {
+      return socket.emit("host_error", { error: "Settings can only be changed between games" });
+    }
+
+    const changes = Object.fromEntries(EDITABLE_SETTINGS.filter((key) => key in settings).map((key) => [key, settings[key]]));
+    const next = { bestOf: 1, variant: "gomoku", ...room.settings, ...changes };
+    const settingsError = getRoomSettingsError(next);
+    if (settingsError) return socket.emit("host_error", { error: settingsError });
+    if (next.playerCount === 2 && room.players.third) {
+      return socket.emit("host_error", { error: "Free the green seat before switching to 2 players" });
+    }
+    if (next.playerCount !== room.settings.playerCount && room.settings.computer) {
+      return socket.emit("host_error", { error: "Player count is fixed in games against the computer" });
+    }
+
+    room.settings = {
+      ...next,
+      timeControl: normalizeTimeControl(next.timeControl),
+      hideSpectatorChat: !!next.hideSpectatorChat,
+      rated: !!next.rated,
+      isPublic: !!next.isPublic
+    };
+    room.players.third = room.settings.playerCount === 3 ? room.players.third || null : undefined;
+    room.invites = room.invites.filter((invite) => getSeatKeys(room.settings.playerCount).includes(invite.seatKey));
+    // 设置改变后重新开始一场比赛
+    room.series = createSeries(room.settings.bestOf);
+    console.log('Host', socket.id, 'updated settings for room', roomId, room.settings);
+    resetGame(roomId);
+    if (changes.isPublic !== undefined) scheduleLobbyUpdate();
+  });
+
+  // 调换两个座位上的玩家（对局之间）
+  socket.on("swap_seats", ({ roomId, seats = [] }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    const seatKeys = getSeatKeys(room.settings.playerCount);
+    const [a, b] = seats;
+    if (!seatKeys.includes(a) || !seatKeys.includes(b) || a === b) return;
+    if (room.tournament) return socket.emit("host_error", { error: "Tournament pairings decide who plays black" });
+    if (isGameInProgress(room)) {
+      return socket.emit("host_error", { error: "Seats can only be swapped between games" });
+    }
+
+    swapSeats(roomId, a, b);
+    console.log('Host', socket.id, 'swapped', a, 'and', b, 'in room', roomId);
+    cancelResetRequest(roomId);
+    syncClock(roomId);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  // 让观战者坐到空座位上
+  socket.on("promote_spectator", ({ roomId, socketId, seatKey }) => {
+    const room = getHostedRoom(roomId);
+    if (!room) return;
+    if (!getSeatKeys(room.settings.playerCount).includes(seatKey) || room.players[seatKey]) {
+      return socket.emit("host_error", { error: "That seat is not free" });
+    }
+    const spectatorSocket = io.sockets.sockets.get(socketId);
+    if (!spectatorSocket || spectatorSocket.data.roomId !== roomId || spectatorSocket.data.side !== "spectator") {
+      return socket.emit("host_error", { error: "That spectator has left" });
+    }
+
+    room.players[seatKey] = createSeat(spectatorSocket.data.playerToken, spectatorSocket.id, spectatorSocket.data.profile);
+    spectatorSocket.data.side = SEAT_SIDES[seatKey];
+    spectatorSocket.emit("side_changed", { side: SEAT_SIDES[seatKey] });
+    console.log('Host', socket.id, 'moved spectator', socketId, 'to', seatKey, 'in room', roomId);
+
+    cancelResetRequest(roomId);
+    syncClock(roomId);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+  });
+
+  // 开局选择：执黑、执白，或（Swap2）再摆两子
+  socket.on("choose_opening", ({ roomId, choice }) => {
+    const room = rooms.get(roomId);
+    if (!room || !room.opening || socket.data.roomId !== roomId) return;
+
+    const side = socket.data.side;
+    if (getOpeningActor(room.opening) !== seatKeyOfSide(side)) return;
+
+    const outcome = applyOpeningChoice(room.opening, choice);
+    if (!outcome) return;
+    if (!chargeClock(roomId)) return;
+    console.log('Client', socket.id, 'opening choice:', choice);
+
+    room.opening = outcome.opening;
+    if (outcome.color) {
+      // 开局结束：行动方选择的颜色与当前座位不同则互换座位
+      room.openingMoves = room.moves.length;
+      if (outcome.color !== side) swapSeats(roomId);
+    }
+    syncClock(roomId);
+    persistRoom(roomId);
+    if (outcome.color) {
+      broadcastSequenced(roomId, "turn_changed", {
+        turn: sideOfNumber(room.turn),
+        clock: getClockPayload(room)
+      });
+    }
+    broadcastRoomState(roomId);
+  });
+
+  // 请求悔棋：撤回自己最近一步（以及之后对手的落子）
+  socket.on("request_takeback", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    if (!room || socket.data.roomId !== roomId) return;
+
+    const side = socket.data.side;
+    if (!SIDE_NUMBERS[side] || room.resigned.includes(side)) return;
+    if (room.result || room.takeback || room.opening) return;
+    // 最近一步自己的棋须在开局摆子之后
+    const lastOwnMove = room.moves.map((move) => move.player).lastIndexOf(side);
+    if (lastOwnMove < room.openingMoves) return;
+
+    // 需要其余所有仍在轮转中的在座真人玩家同意；电脑总是同意
+    const responders = getActiveSeatKeys(room)
+      .filter((seatKey) => room.players[seatKey] && !room.players[seatKey].bot && SEAT_SIDES[seatKey] !== side)
+      .map((seatKey) => SEAT_SIDES[seatKey]);
+
+    room.takeback = { by: side, pending: responders };
+    console.log('Client', socket.id, 'requested takeback as', side);
+    io.to(roomId).emit("takeback_requested", { by: side });
+    if (responders.length === 0) applyTakeback(roomId, null);
+  });
+
+  // 回应悔棋请求
+  socket.on("respond_takeback", ({ roomId, accept }) => {
+    const room = rooms.get(roomId);
+    if (!room || !room.takeback || socket.data.roomId !== roomId) return;
+
+    const side = socket.data.side;
+    if (!room.takeback.pending.includes(side)) return;
+
+    if (!accept) {
+      room.takeback = null;
+      broadcastSequenced(roomId, "takeback_resolved", { accepted: false, by: side });
+      return;
+    }
+
+    room.takeback.pending = room.takeback.pending.filter((s) => s !== side);
+    if (room.takeback.pending.length > 0) return;
+
+    applyTakeback(roomId, side);
   });
 
   // 断开
   socket.on("disconnect", () => {
+    leaveQueue(socket);
     const roomId = socket.data.roomId;
     if (!roomId) return;
     const room = rooms.get(roomId);
     if (!room) return;
 
-    if (room.players.black === socket.id) room.players.black = null;
-    if (room.players.white === socket.id) room.players.white = null;
-    if (room.players.third === socket.id) room.players.third = null;
-
-    io.to(roomId).emit("room_state", {
-      players: {
-        black: !!room.players.black,
-        white: !!room.players.white,
-        third: room.settings.playerCount === 3 ? !!room.players.third : undefined
-      },
-      turn: room.turn,
-      settings: room.settings
-    });
+    // 座位先保留，宽限期内凭令牌重连可找回
+    for (const seatKey of Object.keys(SEAT_SIDES)) {
+      const seat = room.players[seatKey];
+      if (seat && seat.socketId === socket.id) {
+        seat.socketId = null;
+        seat.connected = false;
+        scheduleSeatRelease(roomId, seatKey);
+        console.log('Seat', seatKey, 'in room', roomId, 'reserved for reconnect');
+      }
+    }
 
-    // 如果房间空无一人，清理
-    const roomSockets = io.sockets.adapter.rooms.get(roomId);
-    if (!roomSockets || roomSockets.size === 0) {
-      rooms.delete(roomId);
+    broadcastRoomState(roomId);
+
+    // 如果房间空无一人且没有保留中的座位，清理
+    deleteRoomIfAbandoned(roomId);
+  });
+});
+
+// 外部机器人：令牌对得上才能连上，之后凭房间号入座，轮到时收到 your_turn 并在时限内回 move
+botNamespace.use((socket, next) => {
+  if (!rateLimiters.botConnect.hit(getSocketIp(socket))) return next(new Error("rate_limited"));
+  const token = socket.handshake.auth?.token;
+  const tokenHash = typeof token === "string" && token ? hashBotToken(token) : null;
+  const account = tokenHash ? [...botAccounts.values()].find((candidate) => candidate.tokenHash === tokenHash) : null;
+  if (!account) return next(new Error("invalid_token"));
+  socket.data.bot = account;
+  next();
+});
+
+botNamespace.on("connection", (socket) => {
+  const account = socket.data.bot;
+  console.log('Bot', account.name, 'connected:', socket.id);
+  guardEvents(socket, BOT_EVENT_SCHEMAS);
+
+  // 入座：与真人相同的封禁、锁定、密码与邀请检查；机器人不观战，没有空座时拒绝
+  socket.on("join_room", ({ roomId, password, invite: inviteCode }) => {
+    const room = rooms.get(roomId);
+    const reject = (code, error) => socket.emit("join_error", { roomId, code, error });
+    if (!room) return reject("not_found", "Room not found");
+    if (room.opening) return reject("unsupported", "Bots cannot play opening rules");
+
+    const admission = checkAdmission(room, account.tokenHash, { password, inviteCode });
+    if (admission.error) return reject(admission.error.code, admission.error.error);
+    const { reclaimedSeat, admitted, invite } = admission;
+    const seatKey = invite
+      ? invite.seatKey
+      : reclaimedSeat || getSeatKeys(room.settings.playerCount).find((candidate) => isOpenSeat(room, candidate));
+    if (!seatKey) return reject("no_free_seat", "There is no free seat in this room");
+    if (!admitted && (room.password || invite)) room.admittedTokens.push(account.tokenHash);
+
+    if (invite) room.invites = room.invites.filter((candidate) => candidate !== invite);
+    if (reclaimedSeat) {
+      const seat = room.players[reclaimedSeat];
+      clearSeatReleaseTimer(roomId, reclaimedSeat);
+      seat.socketId = socket.id;
+      seat.connected = true;
+    } else {
+      room.players[seatKey] = createExternalBotSeat(account, socket.id);
+      cancelResetRequest(roomId);
+    }
+    socket.join(roomId);
+    console.log('Bot', account.name, 'seated as', SEAT_SIDES[seatKey], 'in room', roomId);
+
+    socket.emit("joined", { roomId, side: SEAT_SIDES[seatKey], settings: room.settings });
+    syncClock(roomId);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+    scheduleBotMove(roomId);
+  });
+
+  socket.on("move", ({ roomId, x, y }) => {
+    const room = rooms.get(roomId);
+    const seatKey = room ? findSeatByToken(room, account.tokenHash) : null;
+    if (!seatKey || room.players[seatKey].socketId !== socket.id) {
+      socket.emit("move_rejected", { roomId, x, y, reason: "not-seated" });
+      return;
+    }
+    const placementError = getPlacementError(room, SEAT_SIDES[seatKey], x, y);
+    if (placementError) {
+      socket.emit("move_rejected", { roomId, x, y, reason: placementError.reason });
+      return;
+    }
+    console.log('Bot', account.name, 'placing', SEAT_SIDES[seatKey], 'at', x, y, 'in room', roomId);
+    commitMove(roomId, x, y);
+  });
+
+  // 主动离座：对局中离开视为弃局
+  socket.on("leave_room", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const seatKey = room ? findSeatByToken(room, account.tokenHash) : null;
+    if (!seatKey) return;
+    const side = SEAT_SIDES[seatKey];
+    if (isGameInProgress(room) && !room.resigned.includes(side)) resignSide(roomId, side, "abandonment");
+    removeBotFromRoom(roomId, seatKey);
+    cancelResetRequest(roomId);
+    syncClock(roomId);
+    persistRoom(roomId);
+    broadcastRoomState(roomId);
+    deleteRoomIfAbandoned(roomId);
+  });
+
+  // 与真人一样保留座位，宽限期内重连并再次 join_room 可找回
+  socket.on("disconnect", () => {
+    for (const [roomId, room] of rooms) {
+      for (const seatKey of Object.keys(SEAT_SIDES)) {
+        const seat = room.players[seatKey];
+        if (!isExternalBot(seat) || seat.socketId !== socket.id) continue;
+        seat.socketId = null;
+        seat.connected = false;
+        scheduleSeatRelease(roomId, seatKey);
+        broadcastRoomState(roomId);
+      }
     }
   });
 });
@@ -395,6 +2554,13 @@ app.get(/.*/, (req, res) => {
   res.sendFile(path.join(__dirname, '../client/dist', 'index.html'));
 });
 
+// 恢复重启前的房间后再开始监听
+restoreFromStore();
+setInterval(runMatchmaking, MATCHMAKING_INTERVAL_MS);
+setInterval(() => {
+  for (const limiter of Object.values(rateLimiters)) limiter.prune();
+}, RATE_LIMIT_PRUNE_INTERVAL_MS).unref();
+
 // Start server
 server.listen(PORT, () => {
   console.log(`Server listening on http://localhost:${PORT}`);
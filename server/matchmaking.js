@@ -0,0 +1,52 @@
+// server/matchmaking.js
+// 快速匹配：按设置分队列，凑齐人数后由 index.js 建房
+// 计分队列还要求等级分接近：允许的分差随等待时间逐步放宽，等得越久越容易匹配
+const SUPPORTED_BOARD_SIZES = [15, 19];
+const SUPPORTED_WIN_CONDITIONS = [4, 5, 6];
+const SUPPORTED_PLAYER_COUNTS = [2, 3];
+
+const INITIAL_RATING_BAND = 200;
+const RATING_BAND_STEP = 100;
+const RATING_BAND_STEP_MS = 10000;
+
+// 只保留参与匹配的设置，非法时返回 null
+function normalizeQueueSettings(settings = {}) {
+  const { playerCount = 2, winCondition = 5, boardSize = 15, rated = false } = settings;
+  if (!SUPPORTED_PLAYER_COUNTS.includes(playerCount)) return null;
+  if (!SUPPORTED_WIN_CONDITIONS.includes(winCondition)) return null;
+  if (!SUPPORTED_BOARD_SIZES.includes(boardSize)) return null;
+  return { playerCount, winCondition, boardSize, rated: !!rated };
+}
+
+function getQueueKey({ playerCount, winCondition, boardSize, rated }) {
+  return `${playerCount}:${winCondition}:${boardSize}:${rated ? "rated" : "casual"}`;
+}
+
+function getRatingBand(entry, now) {
+  return INITIAL_RATING_BAND + RATING_BAND_STEP * Math.floor((now - entry.joinedAt) / RATING_BAND_STEP_MS);
+}
+
+// 两人可以同桌：休闲队列不看分数；计分队列分差不超过两人中较宽的容忍范围
+function isCompatible(a, b, rated, now) {
+  if (!rated) return true;
+  return Math.abs(a.rating - b.rating) <= Math.max(getRatingBand(a, now), getRatingBand(b, now));
+}
+
+// entries 为同一队列中按加入先后排列的 { rating, joinedAt, ... }
+// 从等得最久的玩家开始，依次挑选与已选者都合得来的人，凑够 playerCount 人即返回，否则返回 null
+function findMatch(entries, { playerCount, rated }, now) {
+  for (let i = 0; i < entries.length; i++) {
+    const group = [entries[i]];
+    for (let j = i + 1; j < entries.length && group.length < playerCount; j++) {
+      if (group.every((member) => isCompatible(member, entries[j], rated, now))) group.push(entries[j]);
+    }
+    if (group.length === playerCount) return group;
+  }
+  return null;
+}
+
+module.exports = {
+  normalizeQueueSettings,
+  getQueueKey,
+  findMatch
+};
@@ -0,0 +1,76 @@
+// server/openings.js
+// 开局规则：Swap 与 Swap2（仅限两人局）
+// 开局阶段由状态机决定由哪个座位行动；棋子颜色仍按黑、白交替，由 room.turn 决定
+//
+// swap:  甲（开局时的黑方座位）先摆三子（黑、白、黑）→ 乙选择执黑或执白
+// swap2: 甲先摆三子 → 乙选择执黑、执白，或再摆两子（白、黑）→ 甲选择执黑或执白
+// 选色完成后轮到白棋落子，进入正常对局
+
+const OPENING_RULES = ["none", "swap", "swap2"];
+
+// actor 为行动方座位；摆子阶段有 stones，选择阶段有 choices
+const PHASES = {
+  place3: { actor: "black", stones: 3, next: "choose" },
+  choose: { actor: "white", choices: { swap: ["black", "white"], swap2: ["black", "white", "place2"] } },
+  place2: { actor: "white", stones: 2, next: "choose2" },
+  choose2: { actor: "black", choices: { swap2: ["black", "white"] } }
+};
+
+function createOpening(rule) {
+  if (!rule || rule === "none") return null;
+  return { rule, phase: "place3", placed: 0 };
+}
+
+// 当前该行动的座位
+function getOpeningActor(opening) {
+  return PHASES[opening.phase].actor;
+}
+
+function isPlacementPhase(opening) {
+  return !!PHASES[opening.phase].stones;
+}
+
+function getOpeningChoices(opening) {
+  const { choices } = PHASES[opening.phase];
+  return (choices && choices[opening.rule]) || [];
+}
+
+// 开局摆下一子后的状态
+function advanceOpening(opening) {
+  const phase = PHASES[opening.phase];
+  const placed = opening.placed + 1;
+  if (placed < phase.stones) return { ...opening, placed };
+  return { ...opening, phase: phase.next, placed: 0 };
+}
+
+// 行动方做出选择；非法选择返回 null
+// 选色时返回 { opening: null, color }，color 为行动方选定的颜色；选择再摆两子时返回下一阶段
+function applyOpeningChoice(opening, choice) {
+  if (!getOpeningChoices(opening).includes(choice)) return null;
+  if (choice === "place2") {
+    return { opening: { ...opening, phase: "place2", placed: 0 }, color: null };
+  }
+  return { opening: null, color: choice };
+}
+
+// 广播给客户端的开局状态
+function describeOpening(opening) {
+  const phase = PHASES[opening.phase];
+  return {
+    rule: opening.rule,
+    phase: opening.phase,
+    actor: phase.actor,
+    stonesLeft: phase.stones ? phase.stones - opening.placed : 0,
+    choices: getOpeningChoices(opening)
+  };
+}
+
+module.exports = {
+  OPENING_RULES,
+  createOpening,
+  getOpeningActor,
+  isPlacementPhase,
+  advanceOpening,
+  applyOpeningChoice,
+  describeOpening
+};
@@ -0,0 +1,35 @@
+// server/rateLimit.js
+// 固定窗口限流：每个 key（IP 或 Socket id）在 windowMs 内最多 limit 次
+function createRateLimiter({ limit, windowMs }) {
+  const windows = new Map();
+
+  // 记一次请求，超出限额时返回 false
+  function hit(key, now = Date.now()) {
+    let window = windows.get(key);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(key, window);
+    }
+    window.count += 1;
+    return window.count <= limit;
+  }
+
+  // 距当前窗口结束还有多久（毫秒），用于 Retry-After
+  function retryAfterMs(key, now = Date.now()) {
+    const window = windows.get(key);
+    return window ? Math.max(window.startedAt + windowMs - now, 0) : 0;
+  }
+
+  // 清掉已过期的窗口，避免长期运行时 Map 无限增长
+  function prune(now = Date.now()) {
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    }
+  }
+
+  return { hit, retryAfterMs, prune };
+}
+
+module.exports = {
+  createRateLimiter
+};
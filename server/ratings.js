@@ -0,0 +1,61 @@
+// server/ratings.js
+// Elo 等级分
+// 两人局：标准 Elo，胜 1 分、和 0.5 分、负 0 分
+// 三人局：拆成两两对局同时结算——胜者对其余两人各记一胜，其余两人之间记和；
+//         超时等无胜者的结局，负方对其余两人各记一负，其余两人之间记和；和棋时两两皆和
+//         每对的 K 值除以对手数，使一局三人棋的分数变化幅度与一局两人棋相当
+const INITIAL_RATING = 1500;
+const K_FACTOR = 32;
+
+function createPlayerRecord(id, nickname) {
+  return { id, nickname, rating: INITIAL_RATING, games: 0, wins: 0, losses: 0, draws: 0 };
+}
+
+// a 对 b 的期望得分
+function expectedScore(ratingA, ratingB) {
+  return 1 / (1 + 10 ** ((ratingB - ratingA) / 400));
+}
+
+// side 相对 other 的实际得分
+function pairScore(result, side, other) {
+  if (result.draw) return 0.5;
+  if (result.winner) {
+    if (result.winner === side) return 1;
+    if (result.winner === other) return 0;
+    return 0.5;
+  }
+  if (result.loser === side) return 0;
+  if (result.loser === other) return 1;
+  return 0.5;
+}
+
+// ratings: { [side]: 赛前等级分 }；result: { winner, draw, loser }
+// 返回 { [side]: 赛后等级分（取整） }，均按赛前分数计算
+function computeRatingChanges(ratings, result) {
+  const sides = Object.keys(ratings);
+  const k = K_FACTOR / (sides.length - 1);
+  const updated = {};
+  for (const side of sides) {
+    let delta = 0;
+    for (const other of sides) {
+      if (other === side) continue;
+      delta += k * (pairScore(result, side, other) - expectedScore(ratings[side], ratings[other]));
+    }
+    updated[side] = Math.round(ratings[side] + delta);
+  }
+  return updated;
+}
+
+// 本局对该玩家而言是胜、负还是和（三人局中非胜者记负，超时局中未超时者记和）
+function outcomeOf(result, side) {
+  if (result.draw) return "draw";
+  if (result.winner) return result.winner === side ? "win" : "loss";
+  return result.loser === side ? "loss" : "draw";
+}
+
+module.exports = {
+  INITIAL_RATING,
+  createPlayerRecord,
+  computeRatingChanges,
+  outcomeOf
+};
@@ -0,0 +1,151 @@
+// server/records.js
+// 棋谱导入导出：支持坐标记法（如 h8 i9 …）与 Piskvork/Gomocup 的 .psq 格式
+const { getRuleSetError, getVariantError } = require("../shared/rules/index.js");
+
+// 与创建房间表单一致的可选设置
+const SUPPORTED_BOARD_SIZES = [15, 19];
+const SUPPORTED_WIN_CONDITIONS = [4, 5, 6];
+const SUPPORTED_PLAYER_COUNTS = [2, 3];
+
+const RECORD_FORMATS = {
+  coordinates: { extension: "txt", contentType: "text/plain" },
+  psq: { extension: "psq", contentType: "text/plain" }
+};
+
+// 列用字母 a 起，行号自下而上从 1 起：15 路棋盘中心 (7,7) 记为 h8
+function formatCoordinate(x, y, boardSize) {
+  return `${String.fromCharCode(97 + x)}${boardSize - y}`;
+}
+
+function parseCoordinate(token, boardSize) {
+  const match = /^([a-z])(\d{1,2})$/.exec(token.toLowerCase());
+  if (!match) throw new Error(`Invalid move "${token}"`);
+  return {
+    x: match[1].charCodeAt(0) - 97,
+    y: boardSize - Number(match[2])
+  };
+}
+
+function validateSettings(settings) {
+  if (!SUPPORTED_BOARD_SIZES.includes(settings.boardSize)) {
+    throw new Error(`Unsupported board size ${settings.boardSize}`);
+  }
+  if (!SUPPORTED_WIN_CONDITIONS.includes(settings.winCondition)) {
+    throw new Error(`Unsupported win condition ${settings.winCondition}`);
+  }
+  if (!SUPPORTED_PLAYER_COUNTS.includes(settings.playerCount)) {
+    throw new Error(`Unsupported player count ${settings.playerCount}`);
+  }
+  const ruleSetError = getRuleSetError(settings);
+  if (ruleSetError) throw new Error(ruleSetError);
+  const variantError = getVariantError(settings);
+  if (variantError) throw new Error(variantError);
+  return settings;
+}
+
+// 坐标记法：PGN 风格的标签头，空行后为按顺序的落子
+//   [Size "15"]
+//   [WinCondition "5"]
+//   [Players "2"]
+//   [RuleSet "renju"]
+//   [Variant "pente"]   （仅非五子棋变体）
+//
+//   h8 i9 h9 …
+function formatCoordinates({ settings, moves }) {
+  const header = [
+    `[Size "${settings.boardSize}"]`,
+    `[WinCondition "${settings.winCondition}"]`,
+    `[Players "${settings.playerCount}"]`,
+    `[RuleSet "${settings.ruleSet || "freestyle"}"]`
+  ];
+  if (settings.variant && settings.variant !== "gomoku") header.push(`[Variant "${settings.variant}"]`);
+  const body = moves.map((move) => formatCoordinate(move.x, move.y, settings.boardSize)).join(" ");
+  return `${header.join("\n")}\n\n${body}\n`;
+}
+
+function parseCoordinates(text) {
+  const tags = {};
+  const tokens = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const tag = /^\[(\w+)\s+"([^"]*)"\]$/.exec(line);
+    if (tag) {
+      tags[tag[1].toLowerCase()] = tag[2];
+      continue;
+    }
+    // 允许带序号的写法，如 "1. h8 2. i9"
+    tokens.push(...line.split(/[\s,]+/).filter((token) => token && !/^\d+\.$/.test(token)));
+  }
+
+  const settings = validateSettings({
+    playerCount: tags.players ? Number(tags.players) : 2,
+    winCondition: tags.wincondition ? Number(tags.wincondition) : 5,
+    boardSize: tags.size ? Number(tags.size) : 15,
+    ruleSet: tags.ruleset || "freestyle",
+    variant: tags.variant || "gomoku"
+  });
+  const moves = tokens.map((token) => parseCoordinate(token, settings.boardSize));
+  return { settings, moves };
+}
+
+// .psq：首行 "Piskvork 15x15, 11:11, 0"，之后每行 "x,y,用时"（坐标从 1 起），以 -1 或非落子行结束。
+// 胜利条件、人数、规则集与变体附在首行末尾（如 "win=5 players=2 rule=renju"），读取尺寸的程序会忽略它们。
+function formatPsq({ settings, moves }) {
+  const { boardSize, winCondition, playerCount, ruleSet = "freestyle", variant = "gomoku" } = settings;
+  const variantTag = variant !== "gomoku" ? ` variant=${variant}` : "";
+  const lines = [`Piskvork ${boardSize}x${boardSize}, 11:11, 0 win=${winCondition} players=${playerCount} rule=${ruleSet}${variantTag}`];
+  for (const move of moves) {
+    lines.push(`${move.x + 1},${move.y + 1},0`);
+  }
+  lines.push("-1");
+  return `${lines.join("\n")}\n`;
+}
+
+function parsePsq(text) {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const header = /^Piskvork\s+(\d+)x(\d+)/i.exec(lines[0] || "");
+  if (!header) throw new Error("Missing Piskvork header");
+  if (header[1] !== header[2]) throw new Error("Only square boards are supported");
+
+  const win = /win=(\d+)/i.exec(lines[0]);
+  const players = /players=(\d+)/i.exec(lines[0]);
+  const rule = /rule=(\w+)/i.exec(lines[0]);
+  const variant = /variant=(\w+)/i.exec(lines[0]);
+  const settings = validateSettings({
+    playerCount: players ? Number(players[1]) : 2,
+    winCondition: win ? Number(win[1]) : 5,
+    boardSize: Number(header[1]),
+    ruleSet: rule ? rule[1].toLowerCase() : "freestyle",
+    variant: variant ? variant[1].toLowerCase() : "gomoku"
+  });
+
+  const moves = [];
+  for (const line of lines.slice(1)) {
+    const move = /^(\d+),(\d+)(,\d+)?$/.exec(line);
+    if (!move) break; // -1、引擎名等尾部内容
+    moves.push({ x: Number(move[1]) - 1, y: Number(move[2]) - 1 });
+  }
+  return { settings, moves };
+}
+
+function formatRecord(game, format) {
+  if (format === "psq") return formatPsq(game);
+  if (format === "coordinates") return formatCoordinates(game);
+  throw new Error(`Unknown record format "${format}"`);
+}
+
+// 未指定格式时按首行自动识别
+function parseRecord(text, format) {
+  if (typeof text !== "string" || !text.trim()) throw new Error("Record is empty");
+  const detected = format || (/^\s*Piskvork/i.test(text) ? "psq" : "coordinates");
+  if (detected === "psq") return parsePsq(text);
+  if (detected === "coordinates") return parseCoordinates(text);
+  throw new Error(`Unknown record format "${format}"`);
+}
+
+module.exports = {
+  RECORD_FORMATS,
+  formatRecord,
+  parseRecord
+};
@@ -0,0 +1,150 @@
+// server/schemas.js
+// 各 REST 请求体与 Socket 事件负载的模式，字段说明见 index.js 中对应的处理函数
+const {
+  string,
+  integer,
+  number,
+  boolean,
+  oneOf,
+  object,
+  array,
+  optional,
+  nullable
+} = require("./validation");
+const { PASSWORD_MAX_LENGTH } = require("./access");
+const { BOT_NAME_MAX_LENGTH } = require("./bots");
+const { MAX_PARTICIPANTS, TOURNAMENT_NAME_MAX_LENGTH, PARTICIPANT_NAME_MAX_LENGTH } = require("./tournaments");
+
+const SEAT_KEYS = ["black", "white", "third"];
+
+const roomId = string({ min: 1, max: 16 });
+const playerToken = nullable(string({ max: 64 }));
+const seatKey = oneOf(SEAT_KEYS);
+const password = nullable(string({ max: PASSWORD_MAX_LENGTH }));
+
+// 个人资料的长度在 normalizeProfile 中再截断，这里只挡住过大的负载
+const profileFields = {
+  nickname: nullable(string({ max: 100 })),
+  color: nullable(string({ max: 32 }))
+};
+
+const timeControl = nullable(object({
+  type: oneOf(["none", "move", "total"]),
+  moveSeconds: optional(integer({ min: 1, max: 3600 })),
+  baseSeconds: optional(integer({ min: 1, max: 86400 })),
+  incrementSeconds: optional(integer({ min: 0, max: 600 }))
+}));
+
+// 房间设置：取值是否相容由 getRoomSettingsError 判断
+const settingsFields = {
+  playerCount: optional(integer({ min: 2, max: 3 })),
+  winCondition: optional(integer({ min: 4, max: 6 })),
+  boardSize: optional(oneOf([15, 19])),
+  ruleSet: optional(string({ max: 20 })),
+  opening: optional(string({ max: 20 })),
+  timeControl,
+  hideSpectatorChat: optional(boolean()),
+  rated: optional(boolean()),
+  isPublic: optional(boolean()),
+  bestOf: optional(integer({ min: 1, max: 7 })),
+  variant: optional(string({ max: 20 }))
+};
+
+const REQUEST_SCHEMAS = {
+  createRoom: object({
+    ...settingsFields,
+    computer: nullable(object({
+      level: optional(string({ max: 20 })),
+      count: optional(integer({ min: 1, max: 2 })),
+      engine: optional(string({ max: 64 }))
+    })),
+    password,
+    playerToken
+  }),
+  importGame: object({
+    record: string({ min: 1, max: 100000 }),
+    format: optional(string({ max: 20 })),
+    playerToken
+  }),
+  registerBot: object({ name: string({ min: 1, max: BOT_NAME_MAX_LENGTH }) }),
+  createTournament: object({
+    name: string({ min: 1, max: TOURNAMENT_NAME_MAX_LENGTH }),
+    format: string({ max: 20 }),
+    participants: array(string({ min: 1, max: PARTICIPANT_NAME_MAX_LENGTH }), { min: 2, max: MAX_PARTICIPANTS }),
+    boardSize: settingsFields.boardSize,
+    winCondition: settingsFields.winCondition,
+    ruleSet: settingsFields.ruleSet,
+    opening: settingsFields.opening,
+    timeControl,
+    playerToken
+  })
+};
+
+// 只含 roomId 的事件
+const roomOnly = object({ roomId });
+const response = object({ roomId, accept: boolean() });
+// 不带负载的事件
+const empty = optional(object({}));
+
+const EVENT_SCHEMAS = {
+  join_room: object({
+    roomId,
+    playerToken,
+    ...profileFields,
+    password,
+    invite: nullable(string({ max: 32 })),
+    protocolVersion: optional(integer({ min: 1, max: 1000 }))
+  }),
+  clock_sync: object({ clientTime: number() }),
+  send_chat: object({ roomId, text: string({ max: 1000 }) }),
+  lobby_subscribe: empty,
+  lobby_unsubscribe: empty,
+  tournament_subscribe: object({ tournamentId: string({ min: 1, max: 16 }), playerToken }),
+  tournament_unsubscribe: object({ tournamentId: string({ min: 1, max: 16 }) }),
+  queue_join: object({
+    settings: optional(object({
+      playerCount: optional(integer({ min: 2, max: 3 })),
+      winCondition: optional(integer({ min: 4, max: 6 })),
+      boardSize: optional(integer({ min: 1, max: 19 })),
+      rated: optional(boolean())
+    })),
+    playerToken,
+    ...profileFields
+  }),
+  queue_leave: empty,
+  get_room_state: roomOnly,
+  place_piece: object({ roomId, x: integer({ min: 0, max: 18 }), y: integer({ min: 0, max: 18 }) }),
+  reset_game: roomOnly,
+  respond_reset: response,
+  resign: roomOnly,
+  offer_draw: roomOnly,
+  respond_draw: response,
+  kick: object({
+    roomId,
+    target: object({ seatKey: optional(seatKey), socketId: optional(string({ max: 64 })) }),
+    ban: optional(boolean())
+  }),
+  create_invite: object({ roomId, seatKey }),
+  revoke_invite: object({ roomId, seatKey }),
+  set_password: object({ roomId, password }),
+  lock_room: object({ roomId, locked: boolean() }),
+  update_settings: object({ roomId, settings: object(settingsFields) }),
+  swap_seats: object({ roomId, seats: array(seatKey, { min: 2, max: 2 }) }),
+  promote_spectator: object({ roomId, socketId: string({ max: 64 }), seatKey }),
+  choose_opening: object({ roomId, choice: oneOf(["black", "white", "place2"]) }),
+  request_takeback: roomOnly,
+  respond_takeback: response
+};
+
+// /bot 命名空间中外部机器人可发的事件
+const BOT_EVENT_SCHEMAS = {
+  join_room: object({ roomId, password, invite: nullable(string({ max: 32 })) }),
+  leave_room: roomOnly,
+  move: object({ roomId, x: integer({ min: 0, max: 18 }), y: integer({ min: 0, max: 18 }) })
+};
+
+module.exports = {
+  REQUEST_SCHEMAS,
+  EVENT_SCHEMAS,
+  BOT_EVENT_SCHEMAS
+};
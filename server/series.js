@@ -0,0 +1,65 @@
+// server/series.js
+// 系列赛（best-of-N）：同一批玩家连续对局，每局后轮换座位，按玩家累计比分
+// 每局胜 1 分、和 0.5 分、负 0 分；领先者的分数超过其余每人的分数加上剩余局数时提前锁定胜局，
+// 打满 N 局仍并列第一则整场比赛为平局
+// 比分按玩家（公开的玩家 id）而非座位记录，因为座位每局都会轮换
+const SERIES_LENGTHS = [1, 3, 5, 7];
+
+// 单局对决（bestOf 为 1）不需要系列赛状态
+function createSeries(bestOf) {
+  if (bestOf <= 1) return null;
+  return { bestOf, games: [], scores: {}, names: {}, finished: false, winner: null };
+}
+
+// 记录一局：players 为 [{ playerId, nickname, points }]，winner 为胜者 id（和棋或无胜者时为 null）
+// 返回新的系列赛状态
+function recordSeriesGame(series, { players, winner, reason }) {
+  const scores = { ...series.scores };
+  const names = { ...series.names };
+  for (const { playerId, nickname, points } of players) {
+    scores[playerId] = (scores[playerId] || 0) + points;
+    if (nickname) names[playerId] = nickname;
+  }
+  const games = [...series.games, { winner, reason }];
+
+  const ranking = Object.keys(scores).sort((a, b) => scores[b] - scores[a]);
+  const [leader, ...others] = ranking;
+  const remaining = series.bestOf - games.length;
+  const clinched = others.every((playerId) => scores[leader] > scores[playerId] + remaining);
+  const finished = clinched || remaining <= 0;
+
+  return {
+    ...series,
+    games,
+    scores,
+    names,
+    finished,
+    // 打满仍并列第一时 winner 为 null
+    winner: finished && (clinched || scores[leader] > scores[others[0]]) ? leader : null
+  };
+}
+
+// 广播给客户端的比赛进程：按比分排序的榜单与每局结果
+function describeSeries(series) {
+  return {
+    bestOf: series.bestOf,
+    gamesPlayed: series.games.length,
+    standings: Object.keys(series.scores)
+      .sort((a, b) => series.scores[b] - series.scores[a])
+      .map((playerId) => ({ playerId, nickname: series.names[playerId] || null, score: series.scores[playerId] })),
+    games: series.games.map((game) => ({
+      winner: game.winner,
+      winnerName: game.winner ? series.names[game.winner] || null : null,
+      reason: game.reason
+    })),
+    finished: series.finished,
+    winner: series.winner
+  };
+}
+
+module.exports = {
+  SERIES_LENGTHS,
+  createSeries,
+  recordSeriesGame,
+  describeSeries
+};
@@ -0,0 +1,103 @@
+// server/store.js
+// 房间、已结束对局、玩家等级分、外部机器人账号与锦标赛的持久化存储，由环境变量 ROOM_STORE 选择：
+// memory - 默认，不落盘，服务重启即清空
+// file   - 每个房间/对局/玩家/机器人/锦标赛一个 JSON 文件，存放在 ROOM_STORE_DIR（默认 server/data）下
+//
+// 存储接口：
+//   loadRooms() -> [[roomId, data], ...]    loadGames() -> [game, ...]（按结束时间先后）
+//   loadPlayers() -> [player, ...]    loadBots() -> [bot, ...]    loadTournaments() -> [tournament, ...]
+//   saveRoom(roomId, data)  deleteRoom(roomId)  saveGame(game)  deleteGame(gameId)  savePlayer(player)  saveBot(bot)
+//   saveTournament(tournament)
+// 内存中的 rooms/games/players/botAccounts/tournaments Map 仍是唯一的读取来源，存储只负责写入与启动时恢复
+const fs = require("fs");
+const path = require("path");
+
+function createMemoryStore() {
+  return {
+    kind: "memory",
+    loadRooms: () => [],
+    loadGames: () => [],
+    loadPlayers: () => [],
+    loadBots: () => [],
+    loadTournaments: () => [],
+    saveRoom() {},
+    deleteRoom() {},
+    saveGame() {},
+    deleteGame() {},
+    savePlayer() {},
+    saveBot() {},
+    saveTournament() {}
+  };
+}
+
+// id 由服务器生成或来自链接，只允许安全字符，避免拼出目录外的路径
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+function createFileStore(dir) {
+  const roomsDir = path.join(dir, "rooms");
+  const gamesDir = path.join(dir, "games");
+  const playersDir = path.join(dir, "players");
+  const botsDir = path.join(dir, "bots");
+  const tournamentsDir = path.join(dir, "tournaments");
+  fs.mkdirSync(roomsDir, { recursive: true });
+  fs.mkdirSync(gamesDir, { recursive: true });
+  fs.mkdirSync(playersDir, { recursive: true });
+  fs.mkdirSync(botsDir, { recursive: true });
+  fs.mkdirSync(tournamentsDir, { recursive: true });
+
+  const fileOf = (folder, id) => {
+    if (!SAFE_ID.test(id)) throw new Error(`Invalid id "${id}"`);
+    return path.join(folder, `${id}.json`);
+  };
+
+  // 先写临时文件再改名，进程中途退出也不会留下半个文件
+  const writeJson = (file, data) => {
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data));
+    fs.renameSync(tmp, file);
+  };
+
+  const readAll = (folder) => {
+    const entries = [];
+    for (const name of fs.readdirSync(folder)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        entries.push([name.slice(0, -5), JSON.parse(fs.readFileSync(path.join(folder, name), "utf8"))]);
+      } catch (error) {
+        console.error('Skipping unreadable store file', name, error.message);
+      }
+    }
+    return entries;
+  };
+
+  const remove = (file) => fs.rmSync(file, { force: true });
+
+  return {
+    kind: "file",
+    loadRooms: () => readAll(roomsDir),
+    loadGames: () => readAll(gamesDir)
+      .map(([, game]) => game)
+      .sort((a, b) => a.finishedAt.localeCompare(b.finishedAt)),
+    loadPlayers: () => readAll(playersDir).map(([, player]) => player),
+    loadBots: () => readAll(botsDir).map(([, bot]) => bot),
+    loadTournaments: () => readAll(tournamentsDir).map(([, tournament]) => tournament),
+    saveRoom: (roomId, data) => writeJson(fileOf(roomsDir, roomId), data),
+    deleteRoom: (roomId) => remove(fileOf(roomsDir, roomId)),
+    saveGame: (game) => writeJson(fileOf(gamesDir, game.id), game),
+    deleteGame: (gameId) => remove(fileOf(gamesDir, gameId)),
+    savePlayer: (player) => writeJson(fileOf(playersDir, player.id), player),
+    saveBot: (bot) => writeJson(fileOf(botsDir, bot.id), bot),
+    saveTournament: (tournament) => writeJson(fileOf(tournamentsDir, tournament.id), tournament)
+  };
+}
+
+function createStore(env = process.env) {
+  const kind = env.ROOM_STORE || "memory";
+  if (kind === "memory") return createMemoryStore();
+  if (kind === "file") return createFileStore(env.ROOM_STORE_DIR || path.join(__dirname, "data"));
+  throw new Error(`Unknown ROOM_STORE "${kind}" (expected "memory" or "file")`);
+}
+
+module.exports = {
+  createStore
+};
@@ -0,0 +1,246 @@
+// server/tournaments.js
+// 锦标赛：组织者给出参赛名单与固定的对局设置，服务器排出对阵（单循环或单败淘汰），逐轮开房间并按结果推进
+// 这里只处理赛程与积分，开房间、收集 game_over 由 index.js 负责
+//
+// 结构： tournament = { id, name, format, settings, participants, rounds, currentRound, status, winner, organizerToken, createdAt }
+// participants 为参赛者名字；rounds[i] = { matches }，每场 match = { id, black, white, roomId, invites, result, bye }
+// black / white 为参赛者下标，轮空时 white 为 null；result = { winner, draw, reason, gameId }，winner 为参赛者下标
+const { customAlphabet } = require("nanoid");
+
+const TOURNAMENT_FORMATS = ["round-robin", "knockout"];
+const MIN_PARTICIPANTS = 2;
+const MAX_PARTICIPANTS = 32;
+const TOURNAMENT_NAME_MAX_LENGTH = 60;
+const PARTICIPANT_NAME_MAX_LENGTH = 20;
+
+const generateTournamentId = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 8);
+
+// 名称、赛制与参赛名单；对局设置由 getRoomSettingsError 另行校验。合法时返回 null
+function getTournamentError({ name, format, participants }) {
+  if (typeof name !== "string" || !name.trim()) return "Tournament name must not be empty";
+  if (name.trim().length > TOURNAMENT_NAME_MAX_LENGTH) return `Tournament name must be at most ${TOURNAMENT_NAME_MAX_LENGTH} characters`;
+  if (!TOURNAMENT_FORMATS.includes(format)) return `Format must be one of ${TOURNAMENT_FORMATS.join(", ")}`;
+  if (!Array.isArray(participants)) return "Participants must be a list of names";
+  const names = participants.map((participant) => (typeof participant === "string" ? participant.trim() : ""));
+  if (names.length < MIN_PARTICIPANTS || names.length > MAX_PARTICIPANTS) {
+    return `Tournaments need ${MIN_PARTICIPANTS} to ${MAX_PARTICIPANTS} participants`;
+  }
+  if (names.some((participant) => !participant)) return "Participant names must not be empty";
+  if (names.some((participant) => participant.length > PARTICIPANT_NAME_MAX_LENGTH)) {
+    return `Participant names must be at most ${PARTICIPANT_NAME_MAX_LENGTH} characters`;
+  }
+  if (new Set(names.map((participant) => participant.toLowerCase())).size !== names.length) return "Participant names must be unique";
+  return null;
+}
+
+function createMatch(roundIndex, matchIndex, black, white) {
+  return { id: `r${roundIndex + 1}m${matchIndex + 1}`, black, white, roomId: null, invites: null, result: null, bye: white === null };
+}
+
+// 轮空直接判进入下一轮（只在淘汰赛中出现）
+function withByeResult(match) {
+  return match.bye ? { ...match, result: { winner: match.black, draw: false, reason: "bye", gameId: null } } : match;
+}
+
+// 单循环：圆桌法，第一个人固定、其余轮转；人数为奇数时补一个轮空，轮空的对局不排
+// 先后手按轮次与台次交替，尽量让每人执黑执白次数相当
+function createRoundRobinRounds(count) {
+  const slots = Array.from({ length: count }, (_, index) => index);
+  if (count % 2 === 1) slots.push(null);
+  const rounds = [];
+  for (let round = 0; round < slots.length - 1; round++) {
+    const matches = [];
+    for (let table = 0; table < slots.length / 2; table++) {
+      const a = slots[table];
+      const b = slots[slots.length - 1 - table];
+      if (a === null || b === null) continue;
+      const [black, white] = (round + table) % 2 === 0 ? [a, b] : [b, a];
+      matches.push(createMatch(round, matches.length, black, white));
+    }
+    rounds.push({ matches });
+    slots.splice(1, 0, slots.pop());
+  }
+  return rounds;
+}
+
+// 淘汰赛签表：按报名顺序为种子，补足到 2 的幂，种子 1、2 只可能在决赛相遇；轮空留给靠前的种子
+function getBracketOrder(size) {
+  let order = [0];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap((seed) => [seed, next - 1 - seed]);
+  }
+  return order;
+}
+
+function createKnockoutFirstRound(count) {
+  let size = 1;
+  while (size < count) size *= 2;
+  const order = getBracketOrder(size);
+  const matches = [];
+  for (let index = 0; index < size; index += 2) {
+    const [a, b] = [order[index], order[index + 1]];
+    const black = a < count ? a : b;
+    const white = a < count && b < count ? b : null;
+    matches.push(withByeResult(createMatch(0, matches.length, black, white)));
+  }
+  return { matches };
+}
+
+function createTournament({ name, format, participants, settings, organizerToken }) {
+  const names = participants.map((participant) => participant.trim());
+  return {
+    id: generateTournamentId(),
+    name: name.trim(),
+    format,
+    settings,
+    participants: names,
+    rounds: format === "round-robin" ? createRoundRobinRounds(names.length) : [createKnockoutFirstRound(names.length)],
+    currentRound: 0,
+    status: "running",
+    winner: null,
+    organizerToken,
+    createdAt: new Date().toISOString()
+  };
+}
+
+function findMatch(tournament, matchId) {
+  for (const round of tournament.rounds) {
+    const match = round.matches.find((candidate) => candidate.id === matchId);
+    if (match) return match;
+  }
+  return null;
+}
+
+// 当前轮还没开房间的对局
+function getMatchesToStart(tournament) {
+  if (tournament.status !== "running") return [];
+  return tournament.rounds[tournament.currentRound].matches.filter((match) => !match.result && !match.roomId);
+}
+
+// 单循环积分：胜 1 分、和 0.5 分；同分按胜局数，再按报名顺序
+function getStandings(tournament) {
+  const rows = tournament.participants.map((name, index) => ({
+    index,
+    name,
+    points: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    played: 0,
+    eliminated: false
+  }));
+  for (const round of tournament.rounds) {
+    for (const match of round.matches) {
+      if (!match.result || match.bye) continue;
+      for (const index of [match.black, match.white]) {
+        const row = rows[index];
+        row.played += 1;
+        if (match.result.draw) {
+          row.draws += 1;
+          row.points += 0.5;
+        } else if (match.result.winner === index) {
+          row.wins += 1;
+          row.points += 1;
+        } else {
+          row.losses += 1;
+          if (tournament.format === "knockout") row.eliminated = true;
+        }
+      }
+    }
+  }
+  return rows.sort((a, b) => b.points - a.points || b.wins - a.wins || a.index - b.index);
+}
+
+// 当前轮全部结束后推进：淘汰赛把相邻两场的胜者配成下一轮，只剩一人时产生冠军；单循环进入下一轮或结束
+function advanceTournament(tournament) {
+  const round = tournament.rounds[tournament.currentRound];
+  if (!round.matches.every((match) => match.result)) return tournament;
+
+  if (tournament.format === "knockout") {
+    const winners = round.matches.map((match) => match.result.winner);
+    if (winners.length === 1) return { ...tournament, status: "finished", winner: winners[0] };
+    const roundIndex = tournament.currentRound + 1;
+    const matches = [];
+    for (let index = 0; index < winners.length; index += 2) {
+      matches.push(createMatch(roundIndex, matches.length, winners[index], winners[index + 1]));
+    }
+    return { ...tournament, rounds: [...tournament.rounds, { matches }], currentRound: roundIndex };
+  }
+
+  if (tournament.currentRound + 1 < tournament.rounds.length) {
+    return { ...tournament, currentRound: tournament.currentRound + 1 };
+  }
+  const [first, second] = getStandings(tournament);
+  const shared = second && second.points === first.points && second.wins === first.wins;
+  return { ...tournament, status: "finished", winner: shared ? null : first.index };
+}
+
+function updateMatch(tournament, matchId, changes) {
+  return {
+    ...tournament,
+    rounds: tournament.rounds.map((round) => ({
+      matches: round.matches.map((match) => (match.id === matchId ? { ...match, ...changes } : match))
+    }))
+  };
+}
+
+// 对局结束：result = { winnerSide, draw, reason, gameId }，winnerSide 为 "black" / "white"（和棋时为 null）
+// 淘汰赛不能以和棋结束，返回 replay: true 由调用方交换先后手重下；其余情况记下结果并尝试推进
+function recordMatchResult(tournament, matchId, { winnerSide, draw, reason, gameId }) {
+  const match = findMatch(tournament, matchId);
+  if (!match || match.result) return { tournament, replay: false };
+  if (draw && tournament.format === "knockout") {
+    return { tournament: updateMatch(tournament, matchId, { black: match.white, white: match.black }), replay: true };
+  }
+  const winner = draw ? null : winnerSide === "black" ? match.black : match.white;
+  const recorded = updateMatch(tournament, matchId, { result: { winner, draw: !!draw, reason, gameId } });
+  return { tournament: advanceTournament(recorded), replay: false };
+}
+
+// 发给页面的赛况：名字代替下标；邀请码只在 includeInvites（组织者）时附上
+function describeTournament(tournament, { includeInvites = false } = {}) {
+  const nameOf = (index) => (index === null || index === undefined ? null : tournament.participants[index]);
+  return {
+    id: tournament.id,
+    name: tournament.name,
+    format: tournament.format,
+    settings: tournament.settings,
+    status: tournament.status,
+    winner: nameOf(tournament.winner),
+    currentRound: tournament.currentRound,
+    standings: getStandings(tournament).map(({ index, ...row }) => row),
+    rounds: tournament.rounds.map((round, roundIndex) => ({
+      number: roundIndex + 1,
+      matches: round.matches.map((match) => ({
+        id: match.id,
+        black: nameOf(match.black),
+        white: nameOf(match.white),
+        roomId: match.roomId,
+        bye: match.bye,
+        result: match.result && {
+          winner: nameOf(match.result.winner),
+          draw: match.result.draw,
+          reason: match.result.reason,
+          gameId: match.result.gameId
+        },
+        ...(includeInvites && match.invites && !match.result ? { invites: match.invites } : {})
+      }))
+    })),
+    isOrganizer: includeInvites,
+    createdAt: tournament.createdAt
+  };
+}
+
+module.exports = {
+  TOURNAMENT_FORMATS,
+  MAX_PARTICIPANTS,
+  TOURNAMENT_NAME_MAX_LENGTH,
+  PARTICIPANT_NAME_MAX_LENGTH,
+  getTournamentError,
+  createTournament,
+  getMatchesToStart,
+  recordMatchResult,
+  updateMatch,
+  describeTournament
+};
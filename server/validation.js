@@ -0,0 +1,90 @@
+// server/validation.js
+// 请求体与 Socket 事件负载的模式校验
+// 每个校验器形如 (value, path) => 错误说明 | null，path 为字段路径（如 "settings.boardSize"）
+// 这里只校验类型与范围，取值是否相容（如连珠只限五子）仍由各模块的 get…Error 判断
+
+const isPlainObject = (value) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const label = (path) => path || "Payload";
+
+function string({ min = 0, max = 200 } = {}) {
+  return (value, path) => {
+    if (typeof value !== "string") return `${label(path)} must be a string`;
+    if (value.length < min) return min === 1 ? `${label(path)} must not be empty` : `${label(path)} must be at least ${min} characters`;
+    if (value.length > max) return `${label(path)} must be at most ${max} characters`;
+    return null;
+  };
+}
+
+function integer({ min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } = {}) {
+  return (value, path) => {
+    if (!Number.isInteger(value)) return `${label(path)} must be a whole number`;
+    if (value < min || value > max) return `${label(path)} must be between ${min} and ${max}`;
+    return null;
+  };
+}
+
+function number() {
+  return (value, path) => (typeof value === "number" && Number.isFinite(value) ? null : `${label(path)} must be a number`);
+}
+
+function boolean() {
+  return (value, path) => (typeof value === "boolean" ? null : `${label(path)} must be true or false`);
+}
+
+function oneOf(values) {
+  return (value, path) => (values.includes(value) ? null : `${label(path)} must be one of ${values.join(", ")}`);
+}
+
+// 只校验 shape 中列出的字段，其余字段忽略
+function object(shape) {
+  return (value, path) => {
+    if (!isPlainObject(value)) return `${label(path)} must be an object`;
+    for (const [key, validator] of Object.entries(shape)) {
+      const error = validator(value[key], path ? `${path}.${key}` : key);
+      if (error) return error;
+    }
+    return null;
+  };
+}
+
+function array(item, { min = 0, max = 100 } = {}) {
+  return (value, path) => {
+    if (!Array.isArray(value)) return `${label(path)} must be a list`;
+    if (value.length < min || value.length > max) {
+      return min === max ? `${label(path)} must have ${min} items` : `${label(path)} must have ${min} to ${max} items`;
+    }
+    for (let index = 0; index < value.length; index++) {
+      const error = item(value[index], `${label(path)}[${index}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+}
+
+// 可省略（undefined）
+function optional(validator) {
+  return (value, path) => (value === undefined ? null : validator(value, path));
+}
+
+// 可省略或为 null
+function nullable(validator) {
+  return (value, path) => (value === undefined || value === null ? null : validator(value, path));
+}
+
+function validate(schema, value) {
+  return schema(value, "");
+}
+
+module.exports = {
+  string,
+  integer,
+  number,
+  boolean,
+  oneOf,
+  object,
+  array,
+  optional,
+  nullable,
+  validate
+};
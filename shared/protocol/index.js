@@ -0,0 +1,21 @@
+// shared/protocol/index.js
+// 房间 Socket 事件的协议版本与状态序号，服务器与客户端共用；各事件负载的类型见 client/src/protocol.ts
+// 改变对局状态的广播（room_state、piece_placed、turn_changed、game_over、reset_done、takeback_resolved）带递增的 seq，
+// joined 与 state_snapshot 是带当前 seq 的完整快照，客户端以它为新的起点
+
+// 事件负载的结构有不兼容的改动时加一
+export const PROTOCOL_VERSION = 1;
+
+/** @typedef {"apply" | "stale" | "gap"} SequenceStatus */
+
+/**
+ * 收到序号为 seq 的事件时如何处理：
+ * apply - 正是下一个序号；stale - 已处理过，或还没有快照作为起点，丢弃；gap - 中间漏收了事件，须请求快照
+ * @param {number | null} lastSeq 最近处理的序号，尚未收到快照时为 null
+ * @param {number} seq
+ * @returns {SequenceStatus}
+ */
+export function checkSequence(lastSeq, seq) {
+  if (lastSeq === null || seq <= lastSeq) return "stale";
+  return seq === lastSeq + 1 ? "apply" : "gap";
+}
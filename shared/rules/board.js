@@ -0,0 +1,97 @@
+// shared/rules/board.js
+// 棋盘表示：board[y][x] 为 0 空、1 黑、2 白、3 绿（第三玩家）；着法以阵营名记录
+
+/** @typedef {0 | 1 | 2 | 3} Cell */
+/** @typedef {1 | 2 | 3} Player 轮次与棋子用数字表示 */
+/** @typedef {"black" | "white" | "green"} Side */
+/** @typedef {Cell[][]} Board */
+/** @typedef {{ x: number, y: number }} Point */
+/** @typedef {{ x: number, y: number, player: Side, captured?: Point[] }} Move captured 为 Pente 中这一步提走的棋子 */
+/** @typedef {{ black: number, white: number }} Captures 各方已提走的对数 */
+
+export const EMPTY = 0;
+export const BLACK = 1;
+export const WHITE = 2;
+export const GREEN = 3;
+
+/** @type {Record<Side, Player>} */
+export const SIDE_NUMBERS = { black: BLACK, white: WHITE, green: GREEN };
+
+/**
+ * @param {number} num
+ * @returns {Side}
+ */
+export function sideOfNumber(num) {
+  return num === BLACK ? "black" : num === WHITE ? "white" : "green";
+}
+
+/**
+ * @param {number} [size]
+ * @returns {Board}
+ */
+export function createEmptyBoard(size = 15) {
+  return Array.from({ length: size }, () => /** @type {Cell[]} */ (Array(size).fill(EMPTY)));
+}
+
+/**
+ * @param {Board} board
+ * @returns {Board}
+ */
+export function cloneBoard(board) {
+  return board.map((row) => [...row]);
+}
+
+/**
+ * @param {number} x
+ * @param {number} y
+ * @param {number} [size]
+ */
+export function inBounds(x, y, size = 15) {
+  return x >= 0 && x < size && y >= 0 && y < size;
+}
+
+/**
+ * 按着法重建棋盘与提子数（悔棋、复盘、恢复时使用）
+ * @param {Move[]} moves
+ * @param {number} [size]
+ * @returns {{ board: Board, captures: Captures }}
+ */
+export function boardFromMoves(moves, size = 15) {
+  const board = createEmptyBoard(size);
+  const captures = { black: 0, white: 0 };
+  for (const move of moves) {
+    board[move.y][move.x] = SIDE_NUMBERS[move.player];
+    for (const point of move.captured || []) board[point.y][point.x] = EMPTY;
+    if (move.captured && move.player !== "green") captures[move.player] += move.captured.length / 2;
+  }
+  return { board, captures };
+}
+
+// 文本形式：每行一个字符串，"." 空、"x" 黑、"o" 白、"g" 绿，行间以 "/" 分隔
+const CELL_CHARS = [".", "x", "o", "g"];
+
+/**
+ * @param {Board} board
+ * @returns {string}
+ */
+export function serializeBoard(board) {
+  return board.map((row) => row.map((cell) => CELL_CHARS[cell]).join("")).join("/");
+}
+
+/**
+ * 解析 serializeBoard 的输出；也接受以换行分隔的行，行首尾空白忽略。格式不对时抛出错误
+ * @param {string} text
+ * @returns {Board}
+ */
+export function parseBoard(text) {
+  const rows = text.split(/[/\n]/).map((row) => row.trim()).filter(Boolean);
+  const board = rows.map((row, y) => {
+    if (row.length !== rows.length) throw new Error(`Row ${y + 1} has ${row.length} cells, expected ${rows.length}`);
+    return [...row].map((char, x) => {
+      const cell = CELL_CHARS.indexOf(char.toLowerCase());
+      if (cell < 0) throw new Error(`Unknown cell "${char}" at ${x},${y}`);
+      return /** @type {Cell} */ (cell);
+    });
+  });
+  return board;
+}
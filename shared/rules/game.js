@@ -0,0 +1,133 @@
+// shared/rules/game.js
+// 一局棋的状态与落子：服务器用它推进房间中的对局，客户端用它预先校验并乐观地显示自己的落子
+// 开局规则（Swap/Swap2）决定由谁落子，不在这里处理；这里的 turn 只表示下一子的颜色
+import { EMPTY, SIDE_NUMBERS, boardFromMoves, cloneBoard, createEmptyBoard, inBounds, sideOfNumber } from "./board.js";
+import { checkDraw, checkWin, getMoveViolation, getNextTurn } from "./rules.js";
+import { CAPTURES_TO_WIN, applyCaptures, passesTurn } from "./variants.js";
+
+/**
+ * 与规则有关的房间设置；旧房间没有 ruleSet / variant，按 freestyle 五子棋处理
+ * @typedef {object} RuleSettings
+ * @property {number} playerCount
+ * @property {number} winCondition
+ * @property {number} boardSize
+ * @property {string} [ruleSet]
+ * @property {string} [variant]
+ */
+
+/**
+ * 本局结果：reason 为 "five-in-row"、"captures"、"board-full"，认输、超时等由服务器另行记录
+ * @typedef {object} GameResult
+ * @property {import("./board.js").Side | null} winner
+ * @property {boolean} [draw]
+ * @property {string} reason
+ */
+
+/**
+ * resigned 为三人局中已认输、退出轮转的阵营
+ * @typedef {object} GameState
+ * @property {import("./board.js").Board} board
+ * @property {import("./board.js").Player} turn
+ * @property {import("./board.js").Move[]} moves
+ * @property {import("./board.js").Captures} captures
+ * @property {import("./board.js").Side[]} resigned
+ * @property {GameResult | null} result
+ * @property {RuleSettings} settings
+ */
+
+/**
+ * 落子不合法的原因；规则禁手另带 forbidden: true
+ * @typedef {{ reason: string, forbidden?: boolean }} MoveError
+ */
+
+/**
+ * @param {RuleSettings} settings
+ * @returns {string}
+ */
+export function getVariant(settings) {
+  return settings.variant || "gomoku";
+}
+
+/**
+ * 新开一局：黑先
+ * @param {RuleSettings} settings
+ * @returns {GameState}
+ */
+export function createGame(settings) {
+  return {
+    board: createEmptyBoard(settings.boardSize),
+    turn: SIDE_NUMBERS.black,
+    moves: [],
+    captures: { black: 0, white: 0 },
+    resigned: [],
+    result: null,
+    settings
+  };
+}
+
+/**
+ * @param {GameState} game
+ * @returns {GameState}
+ */
+export function cloneGame(game) {
+  return {
+    ...game,
+    board: cloneBoard(game.board),
+    moves: [...game.moves],
+    captures: { ...game.captures },
+    resigned: [...game.resigned]
+  };
+}
+
+/**
+ * 当前轮到的颜色在 (x, y) 落子是否合法；合法时返回 null。轮到谁落子由调用方判断
+ * @param {GameState} game
+ * @param {number} x
+ * @param {number} y
+ * @returns {MoveError | null}
+ */
+export function getMoveError(game, x, y) {
+  if (game.result) return { reason: "game-over" };
+  if (!inBounds(x, y, game.settings.boardSize)) return { reason: "off-board" };
+  if (game.board[y][x] !== EMPTY) return { reason: "occupied" };
+
+  const violation = getMoveViolation(game.board, x, y, game.turn, game.settings.ruleSet);
+  if (violation) return { reason: violation, forbidden: true };
+  return null;
+}
+
+/**
+ * 当前轮到的颜色在 (x, y) 落子，并判定胜负或切换回合；直接修改 game，调用方负责事先校验合法性
+ * @param {GameState} game
+ * @param {number} x
+ * @param {number} y
+ */
+export function applyMove(game, x, y) {
+  const side = sideOfNumber(game.turn);
+  const variant = getVariant(game.settings);
+  game.board[y][x] = game.turn;
+  // Pente 提走的棋子记在这一步上，复盘与悔棋据此还原
+  const captured = applyCaptures(variant, game.board, x, y);
+  game.moves.push(captured.length > 0 ? { x, y, player: side, captured } : { x, y, player: side });
+  if (captured.length > 0 && side !== "green") game.captures[side] += captured.length / 2;
+
+  if (checkWin(game.board, x, y, game.settings.winCondition, game.settings.ruleSet)) {
+    game.result = { winner: side, reason: "five-in-row" };
+  } else if (variant === "pente" && side !== "green" && game.captures[side] >= CAPTURES_TO_WIN) {
+    game.result = { winner: side, reason: "captures" };
+  } else if (checkDraw(game.board)) {
+    game.result = { winner: null, draw: true, reason: "board-full" };
+  } else if (passesTurn(variant, game.moves.length)) {
+    game.turn = getNextTurn(game.turn, game.settings.playerCount, game.resigned);
+  }
+}
+
+/**
+ * 按 game.moves 重建棋盘与提子数（悔棋后使用），轮次由调用方设置
+ * @param {GameState} game
+ */
+export function rebuildGame(game) {
+  const { board, captures } = boardFromMoves(game.moves, game.settings.boardSize);
+  game.board = board;
+  game.captures = captures;
+}
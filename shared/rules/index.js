@@ -0,0 +1,7 @@
+// shared/rules/index.js
+// 服务器与客户端共用的对局规则，不依赖任何框架
+// 服务器以 require("../shared/rules/index.js") 引入（需要 Node 20.19+ 对 ES 模块的 require 支持），客户端经 src/rules.ts 引入
+export * from "./board.js";
+export * from "./rules.js";
+export * from "./variants.js";
+export * from "./game.js";
@@ -0,0 +1,266 @@
+// shared/rules/rules.js
+// 规则判定：轮次、胜负与平局、连珠禁手
+import { BLACK, EMPTY, inBounds, sideOfNumber } from "./board.js";
+
+/** @import { Board, Player, Side } from "./board.js" */
+
+// 规则集：
+// freestyle - 连成 winCondition 子或更多即胜
+// standard  - 恰好连成 winCondition 子才胜，长连不算
+// renju     - 仅限两人五子：黑棋须恰好五连，且不得下三三、四四、长连禁手；白棋五连及长连皆胜
+/** @typedef {"freestyle" | "standard" | "renju"} RuleSet */
+/** @typedef {"overline" | "double-four" | "double-three"} ForbiddenReason */
+
+/** @type {RuleSet[]} */
+export const RULE_SETS = ["freestyle", "standard", "renju"];
+
+/**
+ * 下一个行动方：黑 → 白（→ 绿）→ 黑
+ * @param {Player} turn
+ * @param {number} [playerCount]
+ * @returns {Player}
+ */
+export function getOppositeTurn(turn, playerCount = 2) {
+  if (playerCount === 2) {
+    return turn === 1 ? 2 : 1;
+  } else {
+    return turn === 1 ? 2 : turn === 2 ? 3 : 1;
+  }
+}
+
+/**
+ * 下一个行动方，跳过三人局中已认输退出轮转的阵营
+ * @param {Player} turn
+ * @param {number} playerCount
+ * @param {Side[]} [resigned]
+ * @returns {Player}
+ */
+export function getNextTurn(turn, playerCount, resigned = []) {
+  let next = getOppositeTurn(turn, playerCount);
+  while (resigned.includes(sideOfNumber(next)) && next !== turn) {
+    next = getOppositeTurn(next, playerCount);
+  }
+  return next;
+}
+
+const dirs = [
+  [1, 0],  // 横
+  [0, 1],  // 竖
+  [1, 1],  // 斜 \
+  [1, -1], // 斜 /
+];
+
+/**
+ * 从 (x, y) 沿正反两个方向数连续同色（含自身）
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} dx
+ * @param {number} dy
+ */
+function countLine(board, x, y, dx, dy) {
+  const target = board[y][x];
+  let count = 1;
+
+  // 正向
+  let nx = x + dx, ny = y + dy;
+  while (inBounds(nx, ny, board.length) && board[ny][nx] === target) {
+    count++; nx += dx; ny += dy;
+  }
+  // 反向
+  nx = x - dx; ny = y - dy;
+  while (inBounds(nx, ny, board.length) && board[ny][nx] === target) {
+    count++; nx -= dx; ny -= dy;
+  }
+  return count;
+}
+
+/**
+ * 该方的长连是否算胜
+ * @param {string} ruleSet
+ * @param {number} player
+ */
+export function overlineWins(ruleSet, player) {
+  return ruleSet === "freestyle" || (ruleSet === "renju" && player !== BLACK);
+}
+
+/**
+ * 五连检测：从落子点向4个方向数连续同色
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} [winCondition]
+ * @param {string} [ruleSet]
+ */
+export function checkWin(board, x, y, winCondition = 5, ruleSet = "freestyle") {
+  const target = board[y][x];
+  if (target === EMPTY) return false;
+
+  const allowOverline = overlineWins(ruleSet, target);
+  for (const [dx, dy] of dirs) {
+    const count = countLine(board, x, y, dx, dy);
+    if (count === winCondition || (allowOverline && count > winCondition)) return true;
+  }
+  return false;
+}
+
+/**
+ * 已落黑子 (x, y) 时，沿该方向上再落一子即成恰好五连的空点（以相对 (x, y) 的偏移表示）
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} dx
+ * @param {number} dy
+ */
+function findFivePoints(board, x, y, dx, dy) {
+  const points = [];
+  for (let i = -4; i <= 4; i++) {
+    const qx = x + dx * i, qy = y + dy * i;
+    if (i === 0 || !inBounds(qx, qy, board.length) || board[qy][qx] !== EMPTY) continue;
+    board[qy][qx] = BLACK;
+    // (x, y) 原本不成五，落子后 (x, y) 所在连子恰为五说明该点与之相连
+    if (countLine(board, x, y, dx, dy) === 5) points.push(i);
+    board[qy][qx] = EMPTY;
+  }
+  return points;
+}
+
+/**
+ * 活四：两端各差一子成五，即两个成五点相距 5
+ * @param {number[]} points
+ */
+function isStraightFour(points) {
+  return points.length === 2 && Math.abs(points[0] - points[1]) === 5;
+}
+
+/**
+ * 该方向上"四"的个数；活四算一个，如 ●_●●●_● 这类一线两四算两个
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} dx
+ * @param {number} dy
+ */
+function countFours(board, x, y, dx, dy) {
+  const points = findFivePoints(board, x, y, dx, dy);
+  if (isStraightFour(points)) return 1;
+  return Math.min(points.length, 2);
+}
+
+/**
+ * 活三：再落一子（且该子本身不是禁手）即可成活四
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} dx
+ * @param {number} dy
+ * @param {number} depth
+ */
+function hasThree(board, x, y, dx, dy, depth) {
+  for (let i = -4; i <= 4; i++) {
+    const qx = x + dx * i, qy = y + dy * i;
+    if (i === 0 || !inBounds(qx, qy, board.length) || board[qy][qx] !== EMPTY) continue;
+    board[qy][qx] = BLACK;
+    const straightFour = isStraightFour(findFivePoints(board, x, y, dx, dy));
+    board[qy][qx] = EMPTY;
+    if (!straightFour) continue;
+    // 递归判断成活四的那一子是否为禁手，层数有限以免过深
+    if (depth >= 2 || !getForbiddenReason(board, qx, qy, depth + 1)) return true;
+  }
+  return false;
+}
+
+/**
+ * 连珠规则下黑棋在 (x, y) 落子的禁手类型；不是禁手返回 null
+ * 成五优先：同时成五的落子不算禁手。判定时临时改动 board，返回前复原
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} [depth]
+ * @returns {ForbiddenReason | null}
+ */
+export function getForbiddenReason(board, x, y, depth = 0) {
+  if (board[y][x] !== EMPTY) return null;
+  board[y][x] = BLACK;
+  try {
+    let five = false;
+    let overline = false;
+    for (const [dx, dy] of dirs) {
+      const count = countLine(board, x, y, dx, dy);
+      if (count === 5) five = true;
+      else if (count > 5) overline = true;
+    }
+    if (five) return null;
+    if (overline) return "overline";
+
+    let fours = 0;
+    let threes = 0;
+    for (const [dx, dy] of dirs) {
+      const lineFours = countFours(board, x, y, dx, dy);
+      fours += lineFours;
+      // 已成四的方向不再计作三
+      if (lineFours === 0 && hasThree(board, x, y, dx, dy, depth)) threes++;
+    }
+    if (fours >= 2) return "double-four";
+    if (threes >= 2) return "double-three";
+    return null;
+  } finally {
+    board[y][x] = EMPTY;
+  }
+}
+
+/**
+ * 当前棋盘上黑棋的所有禁手点
+ * @param {Board} board
+ * @returns {{ x: number, y: number, reason: ForbiddenReason }[]}
+ */
+export function getForbiddenPoints(board) {
+  const points = [];
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board[y].length; x++) {
+      const reason = getForbiddenReason(board, x, y);
+      if (reason) points.push({ x, y, reason });
+    }
+  }
+  return points;
+}
+
+/**
+ * 规则集与人数、胜利条件是否相容，不相容时返回错误信息
+ * @param {{ ruleSet: string, playerCount: number, winCondition: number }} settings
+ */
+export function getRuleSetError({ ruleSet, playerCount, winCondition }) {
+  if (!RULE_SETS.includes(/** @type {RuleSet} */ (ruleSet))) return `Unknown rule set "${ruleSet}"`;
+  if (ruleSet === "renju" && (playerCount !== 2 || winCondition !== 5)) {
+    return "Renju requires 2 players and 5 in a row";
+  }
+  return null;
+}
+
+/**
+ * 该规则集下 player 在 (x, y) 落子是否违规，违规时返回原因
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @param {number} player
+ * @param {string} [ruleSet]
+ */
+export function getMoveViolation(board, x, y, player, ruleSet) {
+  if (ruleSet !== "renju" || player !== BLACK) return null;
+  return getForbiddenReason(board, x, y);
+}
+
+/**
+ * 检查是否平局：棋盘是否已满
+ * @param {Board} board
+ */
+export function checkDraw(board) {
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board[y].length; x++) {
+      if (board[y][x] === EMPTY) {
+        return false; // 还有空位，不是平局
+      }
+    }
+  }
+  return true; // 棋盘已满，平局
+}
@@ -0,0 +1,85 @@
+// shared/rules/variants.js
+// 玩法变体：
+// gomoku   - 五子棋（默认），每方每次一子，胜利条件与规则集按房间设置
+// connect6 - 六子棋：黑方先下一子，此后双方每回合各下两子，连成六子获胜；仅限两人
+// pente    - 五子连珠夺子棋：用己子夹住对方恰好两颗相连的棋子即提走；五连或累计提走五对获胜；仅限两人
+import { EMPTY } from "./board.js";
+
+/** @import { Board, Point } from "./board.js" */
+/** @typedef {"gomoku" | "connect6" | "pente"} Variant */
+
+/** @type {Variant[]} */
+export const VARIANTS = ["gomoku", "connect6", "pente"];
+
+// Pente 提满多少对获胜
+export const CAPTURES_TO_WIN = 5;
+
+const CAPTURE_DIRS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [-1, -1], [1, -1], [-1, 1]
+];
+
+/**
+ * 校验变体与其余设置是否相容，合法时返回 null
+ * @param {{ variant: string, playerCount: number, winCondition: number, ruleSet?: string, opening?: string }} settings
+ */
+export function getVariantError({ variant, playerCount, winCondition, ruleSet, opening }) {
+  if (!VARIANTS.includes(/** @type {Variant} */ (variant))) return `Unknown variant "${variant}"`;
+  if (variant === "gomoku") return null;
+  const name = variant === "connect6" ? "Connect6" : "Pente";
+  if (playerCount !== 2) return `${name} is played by 2 players`;
+  if (ruleSet === "renju") return `${name} cannot use Renju rules`;
+  if (opening && opening !== "none") return `${name} does not use opening rules`;
+  if (variant === "connect6" && winCondition !== 6) return "Connect6 is won with six in a row";
+  if (variant === "pente" && winCondition !== 5) return "Pente is won with five in a row";
+  return null;
+}
+
+/**
+ * 本局第 moveCount 子（从 1 数起）落下后是否轮到下一方
+ * 六子棋：第 1 子后换手，此后每两子换手，即落下奇数子后换手
+ * @param {string} variant
+ * @param {number} moveCount
+ */
+export function passesTurn(variant, moveCount) {
+  if (variant === "connect6") return moveCount % 2 === 1;
+  return true;
+}
+
+/**
+ * 是否处于某方回合的开始（悔棋退回到这里）
+ * @param {string} variant
+ * @param {number} moveCount
+ */
+export function isTurnStart(variant, moveCount) {
+  return moveCount === 0 || passesTurn(variant, moveCount);
+}
+
+/**
+ * Pente 提子：在 (x, y) 落子后，沿八个方向查找"己-敌-敌-己"，提走中间两子
+ * 直接修改 board，返回被提走的点
+ * @param {string} variant
+ * @param {Board} board
+ * @param {number} x
+ * @param {number} y
+ * @returns {Point[]}
+ */
+export function applyCaptures(variant, board, x, y) {
+  if (variant !== "pente") return [];
+  const player = board[y][x];
+  const size = board.length;
+  /** @type {(cx: number, cy: number) => number | null} */
+  const at = (cx, cy) => (cx >= 0 && cx < size && cy >= 0 && cy < size ? board[cy][cx] : null);
+  const captured = [];
+  for (const [dx, dy] of CAPTURE_DIRS) {
+    const first = at(x + dx, y + dy);
+    if (!first || first === player) continue;
+    if (at(x + 2 * dx, y + 2 * dy) !== first) continue;
+    if (at(x + 3 * dx, y + 3 * dy) !== player) continue;
+    for (const step of [1, 2]) {
+      board[y + step * dy][x + step * dx] = EMPTY;
+      captured.push({ x: x + step * dx, y: y + step * dy });
+    }
+  }
+  return captured;
+}
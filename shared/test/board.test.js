@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SIDE_NUMBERS,
+  sideOfNumber,
+  createEmptyBoard,
+  cloneBoard,
+  inBounds,
+  boardFromMoves,
+  serializeBoard,
+  parseBoard
+} from "../rules/index.js";
+
+test("createEmptyBoard makes a square board of empty cells", () => {
+  const board = createEmptyBoard(19);
+  assert.equal(board.length, 19);
+  assert.ok(board.every((row) => row.length === 19 && row.every((cell) => cell === 0)));
+  assert.notEqual(board[0], board[1]);
+});
+
+test("sides map to cell numbers and back", () => {
+  for (const side of ["black", "white", "green"]) {
+    assert.equal(sideOfNumber(SIDE_NUMBERS[side]), side);
+  }
+});
+
+test("inBounds checks both axes against the board size", () => {
+  assert.ok(inBounds(0, 0, 15));
+  assert.ok(inBounds(14, 14, 15));
+  assert.ok(!inBounds(15, 0, 15));
+  assert.ok(!inBounds(0, -1, 15));
+  assert.ok(inBounds(18, 18, 19));
+});
+
+test("cloneBoard copies rows", () => {
+  const board = createEmptyBoard(15);
+  const copy = cloneBoard(board);
+  copy[7][7] = 1;
+  assert.equal(board[7][7], 0);
+});
+
+test("boardFromMoves places stones and removes Pente captures", () => {
+  const moves = [
+    { x: 0, y: 0, player: "black" },
+    { x: 1, y: 0, player: "white" },
+    { x: 5, y: 5, player: "black" },
+    { x: 2, y: 0, player: "white" },
+    { x: 3, y: 0, player: "black", captured: [{ x: 2, y: 0 }, { x: 1, y: 0 }] }
+  ];
+  const { board, captures } = boardFromMoves(moves, 15);
+  assert.equal(board[0][0], 1);
+  assert.equal(board[0][1], 0);
+  assert.equal(board[0][2], 0);
+  assert.equal(board[0][3], 1);
+  assert.equal(board[5][5], 1);
+  assert.deepEqual(captures, { black: 1, white: 0 });
+});
+
+test("serializeBoard and parseBoard round-trip", () => {
+  const board = createEmptyBoard(15);
+  board[7][7] = 1;
+  board[7][8] = 2;
+  board[0][14] = 3;
+  const text = serializeBoard(board);
+  assert.equal(text.split("/").length, 15);
+  assert.equal(text.split("/")[7], ".......xo......");
+  assert.deepEqual(parseBoard(text), board);
+});
+
+test("parseBoard accepts one row per line and rejects malformed boards", () => {
+  const board = parseBoard(`
+    x..
+    .o.
+    ..g
+  `);
+  assert.deepEqual(board, [[1, 0, 0], [0, 2, 0], [0, 0, 3]]);
+  assert.throws(() => parseBoard("x../..\n..."), /Row 2/);
+  assert.throws(() => parseBoard("x?./.../..."), /Unknown cell/);
+});
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createGame, cloneGame, getMoveError, applyMove, rebuildGame } from "../rules/index.js";
+
+const GOMOKU = { playerCount: 2, winCondition: 5, boardSize: 15, ruleSet: "freestyle", variant: "gomoku" };
+
+// 依次落子，每一步都须合法
+function play(game, points) {
+  for (const [x, y] of points) {
+    assert.equal(getMoveError(game, x, y), null, `move ${x},${y}`);
+    applyMove(game, x, y);
+  }
+  return game;
+}
+
+test("black moves first and turns alternate", () => {
+  const game = createGame(GOMOKU);
+  assert.equal(game.turn, 1);
+  play(game, [[7, 7]]);
+  assert.equal(game.turn, 2);
+  assert.equal(game.board[7][7], 1);
+  assert.deepEqual(game.moves, [{ x: 7, y: 7, player: "black" }]);
+  play(game, [[8, 8]]);
+  assert.equal(game.turn, 1);
+});
+
+test("three players rotate black, white, green", () => {
+  const game = createGame({ ...GOMOKU, playerCount: 3, winCondition: 4 });
+  play(game, [[0, 0], [1, 0], [2, 0]]);
+  assert.deepEqual(game.moves.map((move) => move.player), ["black", "white", "green"]);
+  assert.equal(game.board[0][2], 3);
+  assert.equal(game.turn, 1);
+});
+
+test("resigned sides drop out of the rotation", () => {
+  const game = createGame({ ...GOMOKU, playerCount: 3 });
+  game.resigned = ["white"];
+  play(game, [[0, 0]]);
+  assert.equal(game.turn, 3);
+});
+
+test("getMoveError rejects moves off the board, on stones and after the game", () => {
+  const game = play(createGame(GOMOKU), [[7, 7]]);
+  assert.deepEqual(getMoveError(game, 15, 0), { reason: "off-board" });
+  assert.deepEqual(getMoveError(game, -1, 3), { reason: "off-board" });
+  assert.deepEqual(getMoveError(game, 7, 7), { reason: "occupied" });
+  game.result = { winner: "black", reason: "resignation" };
+  assert.deepEqual(getMoveError(game, 0, 0), { reason: "game-over" });
+});
+
+test("getMoveError reports Renju forbidden moves for black", () => {
+  const game = createGame({ ...GOMOKU, ruleSet: "renju" });
+  // 黑 (5,7) (6,7) (7,5) (7,6)，白子落在远处
+  play(game, [[5, 7], [0, 0], [6, 7], [0, 2], [7, 5], [0, 4], [7, 6], [0, 6]]);
+  assert.deepEqual(getMoveError(game, 7, 7), { reason: "double-three", forbidden: true });
+});
+
+test("five in a row ends the game", () => {
+  const game = play(createGame(GOMOKU), [[0, 0], [0, 1], [1, 0], [1, 1], [2, 0], [2, 1], [3, 0], [3, 1], [4, 0]]);
+  assert.deepEqual(game.result, { winner: "black", reason: "five-in-row" });
+  assert.equal(game.turn, 1);
+});
+
+test("a full board without a winner is a draw", () => {
+  const game = createGame({ ...GOMOKU, boardSize: 2, winCondition: 4 });
+  play(game, [[0, 0], [1, 0], [0, 1], [1, 1]]);
+  assert.deepEqual(game.result, { winner: null, draw: true, reason: "board-full" });
+});
+
+test("Connect6 places two stones per turn after black's first", () => {
+  const game = createGame({ ...GOMOKU, winCondition: 6, variant: "connect6" });
+  play(game, [[7, 7]]);
+  assert.equal(game.turn, 2);
+  play(game, [[0, 0]]);
+  assert.equal(game.turn, 2);
+  play(game, [[0, 1]]);
+  assert.equal(game.turn, 1);
+});
+
+test("Pente records captures on the move and wins with five pairs", () => {
+  const game = createGame({ ...GOMOKU, variant: "pente" });
+  // 黑 (4,0)，白 (5,0) (6,0)，黑 (7,0) 提走两子
+  play(game, [[4, 0], [5, 0], [10, 10], [6, 0], [7, 0]]);
+  const last = game.moves[game.moves.length - 1];
+  assert.deepEqual(last.captured, [{ x: 6, y: 0 }, { x: 5, y: 0 }]);
+  assert.deepEqual(game.captures, { black: 1, white: 0 });
+  assert.equal(game.board[0][5], 0);
+
+  game.captures.black = 4;
+  game.board[3][4] = 1;
+  game.board[3][5] = 2;
+  game.board[3][6] = 2;
+  game.turn = 1;
+  play(game, [[7, 3]]);
+  assert.deepEqual(game.result, { winner: "black", reason: "captures" });
+});
+
+test("rebuildGame restores the board and captures after a takeback", () => {
+  const game = createGame({ ...GOMOKU, variant: "pente" });
+  play(game, [[4, 0], [5, 0], [10, 10], [6, 0], [7, 0]]);
+  game.moves.pop();
+  rebuildGame(game);
+  assert.equal(game.board[0][5], 2);
+  assert.equal(game.board[0][6], 2);
+  assert.equal(game.board[0][7], 0);
+  assert.deepEqual(game.captures, { black: 0, white: 0 });
+});
+
+test("cloneGame does not share state with the original", () => {
+  const game = play(createGame(GOMOKU), [[7, 7]]);
+  const copy = cloneGame(game);
+  applyMove(copy, 8, 8);
+  assert.equal(game.board[8][8], 0);
+  assert.equal(game.moves.length, 1);
+  assert.equal(game.turn, 2);
+});
@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkSequence } from "../protocol/index.js";
+
+test("checkSequence applies the next sequence number", () => {
+  assert.equal(checkSequence(0, 1), "apply");
+  assert.equal(checkSequence(41, 42), "apply");
+});
+
+test("checkSequence drops repeated, older and pre-snapshot events", () => {
+  assert.equal(checkSequence(5, 5), "stale");
+  assert.equal(checkSequence(5, 3), "stale");
+  assert.equal(checkSequence(null, 1), "stale");
+});
+
+test("checkSequence reports a gap when events were missed", () => {
+  assert.equal(checkSequence(5, 7), "gap");
+  assert.equal(checkSequence(0, 10), "gap");
+});
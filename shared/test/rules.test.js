@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createEmptyBoard,
+  parseBoard,
+  getOppositeTurn,
+  getNextTurn,
+  checkWin,
+  checkDraw,
+  overlineWins,
+  getForbiddenReason,
+  getForbiddenPoints,
+  getMoveViolation,
+  getRuleSetError
+} from "../rules/index.js";
+
+// 在 15 路空棋盘上摆子：stones 为 [x, y, player]
+function boardWith(stones, size = 15) {
+  const board = createEmptyBoard(size);
+  for (const [x, y, player] of stones) board[y][x] = player;
+  return board;
+}
+
+// 黑棋一行 count 子，从 (startX, y) 起
+function blackRow(startX, y, count) {
+  return Array.from({ length: count }, (_, index) => [startX + index, y, 1]);
+}
+
+test("turn order cycles through two or three players", () => {
+  assert.equal(getOppositeTurn(1, 2), 2);
+  assert.equal(getOppositeTurn(2, 2), 1);
+  assert.equal(getOppositeTurn(1, 3), 2);
+  assert.equal(getOppositeTurn(2, 3), 3);
+  assert.equal(getOppositeTurn(3, 3), 1);
+});
+
+test("getNextTurn skips resigned sides", () => {
+  assert.equal(getNextTurn(1, 3, ["white"]), 3);
+  assert.equal(getNextTurn(3, 3, ["black"]), 2);
+  assert.equal(getNextTurn(2, 3, []), 3);
+  // 其余阵营都已退出时仍轮到自己
+  assert.equal(getNextTurn(1, 3, ["white", "green"]), 1);
+});
+
+test("checkWin finds lines in all four directions", () => {
+  assert.ok(checkWin(boardWith(blackRow(3, 7, 5)), 5, 7));
+  const vertical = boardWith([0, 1, 2, 3, 4].map((i) => [7, 3 + i, 2]));
+  assert.ok(checkWin(vertical, 7, 5));
+  const diagonal = boardWith([0, 1, 2, 3, 4].map((i) => [2 + i, 2 + i, 3]));
+  assert.ok(checkWin(diagonal, 4, 4));
+  const antiDiagonal = boardWith([0, 1, 2, 3, 4].map((i) => [2 + i, 10 - i, 1]));
+  assert.ok(checkWin(antiDiagonal, 6, 6));
+  assert.ok(!checkWin(boardWith(blackRow(3, 7, 4)), 5, 7));
+  assert.ok(!checkWin(createEmptyBoard(15), 7, 7));
+});
+
+test("checkWin honours the win condition", () => {
+  const four = boardWith(blackRow(3, 7, 4));
+  assert.ok(checkWin(four, 4, 7, 4));
+  assert.ok(!checkWin(four, 4, 7, 5));
+  assert.ok(checkWin(boardWith(blackRow(3, 7, 6)), 4, 7, 6));
+});
+
+test("overlines win in freestyle only, and for white in Renju", () => {
+  const overline = boardWith(blackRow(3, 7, 6));
+  assert.ok(checkWin(overline, 5, 7, 5, "freestyle"));
+  assert.ok(!checkWin(overline, 5, 7, 5, "standard"));
+  assert.ok(!checkWin(overline, 5, 7, 5, "renju"));
+  const whiteOverline = boardWith(blackRow(3, 7, 6).map(([x, y]) => [x, y, 2]));
+  assert.ok(checkWin(whiteOverline, 5, 7, 5, "renju"));
+  assert.ok(overlineWins("renju", 2));
+  assert.ok(!overlineWins("renju", 1));
+});
+
+test("checkDraw is true only for a full board", () => {
+  const board = parseBoard("xo/ox");
+  assert.ok(checkDraw(board));
+  board[0][1] = 0;
+  assert.ok(!checkDraw(board));
+});
+
+test("Renju forbids black overlines", () => {
+  const board = boardWith([...blackRow(3, 7, 3), ...blackRow(7, 7, 2)]);
+  assert.equal(getForbiddenReason(board, 6, 7), "overline");
+});
+
+test("Renju forbids black double fours", () => {
+  // 横向 (3..5, 7) 与纵向 (6, 4..6) 各三子，交点 (6, 7) 同时成两个四
+  const board = boardWith([...blackRow(3, 7, 3), [6, 4, 1], [6, 5, 1], [6, 6, 1]]);
+  assert.equal(getForbiddenReason(board, 6, 7), "double-four");
+});
+
+test("Renju forbids black double threes", () => {
+  // 横向 (5, 6, 7) 与纵向 (7, 5..6)，在 (7, 7) 落子同时成两个活三
+  const board = boardWith([[5, 7, 1], [6, 7, 1], [7, 5, 1], [7, 6, 1]]);
+  assert.equal(getForbiddenReason(board, 7, 7), "double-three");
+});
+
+test("making five takes priority over a forbidden shape", () => {
+  // (7, 7) 横向成五，同时纵向成四：成五优先，不算禁手
+  const board = boardWith([...blackRow(3, 7, 4), [7, 4, 1], [7, 5, 1], [7, 6, 1]]);
+  assert.equal(getForbiddenReason(board, 7, 7), null);
+});
+
+test("a three blocked by white is not a live three", () => {
+  const board = boardWith([[5, 7, 1], [6, 7, 1], [4, 7, 2], [7, 5, 1], [7, 6, 1]]);
+  assert.equal(getForbiddenReason(board, 7, 7), null);
+});
+
+test("getForbiddenReason leaves the board unchanged", () => {
+  const board = boardWith([[5, 7, 1], [6, 7, 1], [7, 5, 1], [7, 6, 1]]);
+  const before = JSON.stringify(board);
+  getForbiddenPoints(board);
+  assert.equal(JSON.stringify(board), before);
+});
+
+test("getMoveViolation only applies to black under Renju", () => {
+  const board = boardWith([[5, 7, 1], [6, 7, 1], [7, 5, 1], [7, 6, 1]]);
+  assert.equal(getMoveViolation(board, 7, 7, 1, "renju"), "double-three");
+  assert.equal(getMoveViolation(board, 7, 7, 2, "renju"), null);
+  assert.equal(getMoveViolation(board, 7, 7, 1, "standard"), null);
+  assert.deepEqual(getForbiddenPoints(board).find((point) => point.x === 7 && point.y === 7), { x: 7, y: 7, reason: "double-three" });
+});
+
+test("getRuleSetError limits Renju to two players and five in a row", () => {
+  assert.equal(getRuleSetError({ ruleSet: "freestyle", playerCount: 3, winCondition: 4 }), null);
+  assert.equal(getRuleSetError({ ruleSet: "renju", playerCount: 2, winCondition: 5 }), null);
+  assert.match(getRuleSetError({ ruleSet: "renju", playerCount: 3, winCondition: 5 }), /Renju/);
+  assert.match(getRuleSetError({ ruleSet: "renju", playerCount: 2, winCondition: 6 }), /Renju/);
+  assert.match(getRuleSetError({ ruleSet: "caro", playerCount: 2, winCondition: 5 }), /Unknown rule set/);
+});
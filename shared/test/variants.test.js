@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createEmptyBoard, getVariantError, passesTurn, isTurnStart, applyCaptures } from "../rules/index.js";
+
+test("getVariantError checks variant settings", () => {
+  assert.equal(getVariantError({ variant: "gomoku", playerCount: 3, winCondition: 4 }), null);
+  assert.equal(getVariantError({ variant: "connect6", playerCount: 2, winCondition: 6, ruleSet: "freestyle", opening: "none" }), null);
+  assert.equal(getVariantError({ variant: "pente", playerCount: 2, winCondition: 5 }), null);
+  assert.match(getVariantError({ variant: "go", playerCount: 2, winCondition: 5 }), /Unknown variant/);
+  assert.match(getVariantError({ variant: "pente", playerCount: 3, winCondition: 5 }), /2 players/);
+  assert.match(getVariantError({ variant: "connect6", playerCount: 2, winCondition: 5 }), /six in a row/);
+  assert.match(getVariantError({ variant: "pente", playerCount: 2, winCondition: 5, ruleSet: "renju" }), /Renju/);
+  assert.match(getVariantError({ variant: "pente", playerCount: 2, winCondition: 5, opening: "swap" }), /opening/);
+});
+
+test("Connect6 passes the turn after the first stone and then every second stone", () => {
+  assert.deepEqual([1, 2, 3, 4, 5].map((count) => passesTurn("connect6", count)), [true, false, true, false, true]);
+  assert.ok([1, 2, 3].every((count) => passesTurn("gomoku", count)));
+  assert.ok(isTurnStart("connect6", 0));
+  assert.ok(isTurnStart("connect6", 3));
+  assert.ok(!isTurnStart("connect6", 2));
+});
+
+test("Pente captures exactly two flanked stones", () => {
+  const board = createEmptyBoard(15);
+  board[7][4] = 1;
+  board[7][5] = 2;
+  board[7][6] = 2;
+  board[7][7] = 1;
+  assert.deepEqual(applyCaptures("pente", board, 7, 7), [{ x: 6, y: 7 }, { x: 5, y: 7 }]);
+  assert.equal(board[7][5], 0);
+  assert.equal(board[7][6], 0);
+});
+
+test("Pente does not capture one or three stones, and other variants never capture", () => {
+  const single = createEmptyBoard(15);
+  single[7][5] = 1;
+  single[7][6] = 2;
+  single[7][7] = 1;
+  assert.deepEqual(applyCaptures("pente", single, 7, 7), []);
+
+  const triple = createEmptyBoard(15);
+  triple[7][3] = 1;
+  triple[7][4] = 2;
+  triple[7][5] = 2;
+  triple[7][6] = 2;
+  triple[7][7] = 1;
+  assert.deepEqual(applyCaptures("pente", triple, 7, 7), []);
+
+  const gomoku = createEmptyBoard(15);
+  gomoku[7][4] = 1;
+  gomoku[7][5] = 2;
+  gomoku[7][6] = 2;
+  gomoku[7][7] = 1;
+  assert.deepEqual(applyCaptures("gomoku", gomoku, 7, 7), []);
+  assert.equal(gomoku[7][5], 2);
+});